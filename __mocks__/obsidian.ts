@@ -0,0 +1,13 @@
+// Stands in for the parts of the Obsidian API that the tested modules use; the real one only exists inside the app.
+import * as moment from 'moment';
+import { parse, stringify } from 'yaml';
+
+export { moment };
+
+export function parseYaml(text: string): any {
+	return parse(text);
+}
+
+export function stringifyYaml(value: unknown): string {
+	return stringify(value);
+}
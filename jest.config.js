@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/src'],
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/__mocks__/obsidian.ts',
+	},
+	transform: {
+		// Type-checking is left to tsc; the tests are only transpiled.
+		'^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', target: 'ES2019', isolatedModules: true } }],
+	},
+};
@@ -1,61 +1,206 @@
-import { requestUrl } from 'obsidian';
-import { AIProvider, AIResponse, KnowledgeExpanderSettings, PRICING_PER_MILLION_TOKENS } from './types';
+import { AIProviderDefinition, canFallBack, ChatMessage, Completion, findModel, getProvider, getProviderConfig, HttpRequest, isLocalProvider, MAX_OUTPUT_TOKENS, ProviderConfig, ProviderError, ResponseSchema } from './providers';
+import { insertCitationFootnotes } from './footnotes';
+import { getPromptStrings, parseTitleLine, PromptStrings, resolveOutputLanguage } from './i18n';
+import { uniqueCitations } from './providers/citations';
+import { Redactor } from './redaction';
+import { getEnvReference, resolveEnvReference } from './secret-store';
+import { EXPANSION_SCHEMA, parseStructuredExpansion, streamJsonField } from './structured-output';
+import { estimateTokens, truncateToTokens } from './tokens';
+import { requestJson, streamEvents, TransportOptions } from './transport';
+import { AIProvider, AIResponse, Citation, KnowledgeExpanderSettings, ModelChoice, PromptProfile } from './types';
+
+export type StreamCallback = (chunk: string) => void;
+
+export interface CostEstimate {
+	provider: AIProvider;
+	model: string;
+	/** `null` when the model has no price in the catalog. */
+	estimatedCost: number | null;
+}
+
+export interface RequestOptions {
+	onChunk?: StreamCallback;
+	signal?: AbortSignal;
+	/** Called with the worst-case cost before the request is sent; throwing stops the request. */
+	onBeforeRequest?: (estimate: CostEstimate) => void | Promise<void>;
+	/** Replaces the system prompt and, when set, the provider and model. */
+	profile?: PromptProfile | null;
+	/** Existing vault notes the model is shown and asked to link to. */
+	relatedNotes?: NoteExcerpt[];
+	/** Sends the request to this provider and model only, overriding the profile and skipping the fallback chain. */
+	model?: ModelChoice;
+}
+
+export interface NoteExcerpt {
+	title: string;
+	excerpt: string;
+}
+
+/** What an expansion was made from, kept in the note so the conversation can be continued. */
+export interface ExpansionSource {
+	selectedText: string;
+	context: string;
+	userQuestion: string;
+}
+
+interface PromptInput {
+	selectedText: string;
+	context: string;
+	userQuestion: string;
+	existingNote?: string;
+	relatedNotes?: NoteExcerpt[];
+	/** Whether values in the input were replaced with placeholders. */
+	redacted?: boolean;
+}
+
+/** The prompt an expansion would send, for showing it before it is sent. */
+export interface PromptPreview {
+	prompt: string;
+	/** Distinct values replaced with placeholders. */
+	redactions: number;
+	/** What merging into the selection's existing expansion note would send instead. */
+	merge?: PromptPreview & { note: string };
+}
+
+/** A prompt ready to send, with the redactor whose placeholders it holds. */
+interface PreparedPrompt {
+	providerId: AIProvider;
+	prompt: string;
+	redactor: Redactor | null;
+	structured: boolean;
+}
 
 export class AIService {
 	private settings: KnowledgeExpanderSettings;
+	/** Whether the API keys are encrypted with a passphrase that has not been entered yet. */
+	private secretsLocked: () => boolean;
 
-	constructor(settings: KnowledgeExpanderSettings) {
+	constructor(settings: KnowledgeExpanderSettings, secretsLocked: () => boolean = () => false) {
 		this.settings = settings;
+		this.secretsLocked = secretsLocked;
 	}
 
 	updateSettings(settings: KnowledgeExpanderSettings) {
 		this.settings = settings;
 	}
 
-	async expandKnowledge(selectedText: string, context: string, userQuestion: string = ''): Promise<AIResponse> {
-		const prompt = this.buildPrompt(selectedText, context, userQuestion);
-
-		let response: AIResponse;
-		switch (this.settings.aiProvider) {
-			case 'openai':
-				response = await this.callOpenAI(prompt);
-				break;
-			case 'gemini':
-				response = await this.callGemini(prompt);
-				break;
-			case 'claude':
-				response = await this.callClaude(prompt);
-				break;
-			default:
-				throw new Error(`Unknown AI provider: ${this.settings.aiProvider}`);
+	async expandKnowledge(selectedText: string, context: string, userQuestion: string = '', options: RequestOptions = {}): Promise<AIResponse> {
+		const { providerId, prompt, redactor, structured } = this.prepareExpansion(selectedText, context, userQuestion, options);
+		const response = await this.complete(providerId, [{ role: 'user', content: prompt }], false, options, structured ? EXPANSION_SCHEMA : undefined, redactor);
+
+		const expansion = structured ? parseStructuredExpansion(response.content) : null;
+		if (expansion) {
+			response.title = expansion.title;
+			response.content = expansion.body;
+			response.tags = expansion.tags;
+			response.aliases = expansion.aliases;
+			response.related = expansion.related;
+			return response;
 		}
 
 		const strippedContent = this.stripMarkdownCodeBlock(response.content);
 		const parsed = this.parseResponse(strippedContent);
 		
 		response.title = parsed.title;
-		response.content = parsed.content;
+		response.content = insertCitationFootnotes(parsed.content, response.citations);
 		
 		return response;
 	}
 
-	async webSearch(selectedText: string, context: string, userQuestion: string = ''): Promise<AIResponse> {
-		if (!this.settings.openaiApiKey) {
-			throw new Error('OpenAI API key is required for web search');
-		}
+	/** Rewrites `existingNote` (its body, without frontmatter) so it also covers the selection. */
+	async mergeKnowledge(existingNote: string, selectedText: string, context: string, userQuestion: string = '', options: RequestOptions = {}): Promise<AIResponse> {
+		const { providerId, prompt, redactor } = this.prepareExpansion(selectedText, context, userQuestion, options, existingNote);
+		const response = await this.complete(providerId, [{ role: 'user', content: prompt }], false, options, undefined, redactor);
+
+		response.content = this.stripMarkdownCodeBlock(response.content);
+		return response;
+	}
 
-		const prompt = this.buildWebSearchPrompt(selectedText, context, userQuestion);
-		const response = await this.callOpenAIWebSearch(prompt);
+	async webSearch(selectedText: string, context: string, userQuestion: string = '', options: RequestOptions = {}): Promise<AIResponse> {
+		const { providerId, prompt, redactor } = this.prepareWebSearch(selectedText, context, userQuestion, options);
+		const response = await this.complete(providerId, [{ role: 'user', content: prompt }], true, options, undefined, redactor);
 
 		const strippedContent = this.stripMarkdownCodeBlock(response.content);
 		const parsed = this.parseResponse(strippedContent);
 		
 		response.title = parsed.title;
-		response.content = parsed.content;
+		response.content = insertCitationFootnotes(parsed.content, response.citations);
 		
 		return response;
 	}
 
+	/** The worst-case cost of `expandKnowledge` with these inputs, without sending a request. */
+	estimateExpansion(selectedText: string, context: string, userQuestion: string = '', options: RequestOptions = {}): CostEstimate {
+		const providerId = this.resolveProvider(options);
+		const structured = this.settings.structuredOutput && !!getProvider(providerId)?.capabilities.jsonMode;
+		const prompt = this.fitPrompt(providerId, false, options, { selectedText, context, userQuestion, relatedNotes: options.relatedNotes },
+			input => this.buildPrompt(input, options.profile, structured));
+		const model = this.resolveModel(providerId, false, options);
+		return {
+			provider: providerId,
+			model,
+			estimatedCost: this.calculateCost(providerId, model, estimateTokens(prompt), MAX_OUTPUT_TOKENS),
+		};
+	}
+
+	/**
+	 * The prompt `expandKnowledge` would send for these inputs, after
+	 * redaction. With `webSearch` set it is that of `webSearch`, and with
+	 * `existingNote` that of `mergeKnowledge`.
+	 */
+	previewPrompt(selectedText: string, context: string, userQuestion: string = '', webSearch: boolean = false, options: RequestOptions = {}, existingNote?: string): PromptPreview {
+		const { prompt, redactor } = webSearch
+			? this.prepareWebSearch(selectedText, context, userQuestion, options)
+			: this.prepareExpansion(selectedText, context, userQuestion, options, existingNote);
+		return { prompt, redactions: redactor ? redactor.size : 0 };
+	}
+
+	/** The prompt of an expansion, or with `existingNote` of merging the expansion into that note. */
+	private prepareExpansion(selectedText: string, context: string, userQuestion: string, options: RequestOptions, existingNote?: string): PreparedPrompt {
+		const providerId = this.resolveProvider(options);
+		const redactor = this.createRedactor();
+		const input = this.redactInput({ selectedText, context, userQuestion, existingNote, relatedNotes: options.relatedNotes }, redactor);
+		if (existingNote !== undefined) {
+			const strings = this.getPromptStrings(selectedText, context);
+			const instructions = this.getProfilePrompt(options.profile, strings) || this.settings.systemPrompt || strings.systemPrompt;
+			const prompt = this.fitPrompt(providerId, false, options, input, fitted => this.composePrompt(instructions, strings.mergeInstruction, strings, fitted));
+			return { providerId, prompt, redactor, structured: false };
+		}
+		const structured = this.settings.structuredOutput && !!getProvider(providerId)?.capabilities.jsonMode;
+		const prompt = this.fitPrompt(providerId, false, options, input, fitted => this.buildPrompt(fitted, options.profile, structured));
+		return { providerId, prompt, redactor, structured };
+	}
+
+	private prepareWebSearch(selectedText: string, context: string, userQuestion: string, options: RequestOptions): PreparedPrompt {
+		const providerId = this.settings.aiProvider;
+		const redactor = this.createRedactor();
+		const prompt = this.fitPrompt(providerId, true, options, this.redactInput({ selectedText, context, userQuestion, relatedNotes: options.relatedNotes }, redactor),
+			input => this.buildWebSearchPrompt(input));
+		return { providerId, prompt, redactor, structured: false };
+	}
+
+	/**
+	 * Answers a follow-up question on an expansion. The conversation is
+	 * rebuilt as the original prompt, the note as the model's answer, then the
+	 * earlier `turns` of this follow-up session and the new question.
+	 */
+	async followUp(source: ExpansionSource, note: string, turns: ChatMessage[], question: string, options: RequestOptions = {}): Promise<AIResponse> {
+		const providerId = this.resolveProvider(options);
+		const strings = this.getPromptStrings(source.selectedText, source.context);
+		const redactor = this.createRedactor();
+		const redact = (text: string) => redactor ? redactor.redact(text) : text;
+		const messages: ChatMessage[] = [
+			{ role: 'user', content: this.buildPrompt(this.redactInput({ ...source, relatedNotes: options.relatedNotes }, redactor), options.profile, false) },
+			{ role: 'assistant', content: redact(note) },
+			...turns.map(turn => ({ ...turn, content: redact(turn.content) })),
+			{ role: 'user', content: `${strings.followUpInstruction}\n\n${strings.question}:\n"${redact(question)}"` },
+		];
+		const response = await this.complete(providerId, messages, false, options, undefined, redactor);
+
+		response.content = insertCitationFootnotes(this.stripMarkdownCodeBlock(response.content), response.citations);
+		return response;
+	}
+
 	private stripMarkdownCodeBlock(content: string): string {
 		let result = content.trim();
 		
@@ -74,45 +219,119 @@ export class AIService {
 		return result.trim();
 	}
 
-	private buildPrompt(selectedText: string, context: string, userQuestion: string = ''): string {
-		let questionSection = '';
-		if (userQuestion.trim()) {
-			questionSection = `\n\n사용자의 추가 질문:\n"${userQuestion}"`;
+	private buildPrompt(input: PromptInput, profile: PromptProfile | null | undefined, structured: boolean): string {
+		const strings = this.getPromptStrings(input.selectedText, input.context);
+		const instructions = this.getProfilePrompt(profile, strings) || this.settings.systemPrompt || strings.systemPrompt;
+		const directive = structured ? strings.structuredInstruction : strings.titleInstruction;
+		return this.composePrompt(instructions, directive, strings, input);
+	}
+
+	private buildWebSearchPrompt(input: PromptInput): string {
+		const strings = this.getPromptStrings(input.selectedText, input.context);
+		return this.composePrompt(this.settings.webSearchPrompt || strings.webSearchPrompt, strings.titleInstruction, strings, input);
+	}
+
+	/**
+	 * Builds the prompt, shortening the surrounding context so the prompt and
+	 * the longest expected answer fit in the model's context window. Models
+	 * without a known context window get the prompt as is.
+	 */
+	private fitPrompt(providerId: AIProvider, webSearch: boolean, options: RequestOptions, input: PromptInput, build: (input: PromptInput) => string): string {
+		const prompt = build(input);
+		const contextWindow = findModel(this.settings, providerId, this.resolveModel(providerId, webSearch, options))?.contextWindow;
+		if (!contextWindow || estimateTokens(prompt) + MAX_OUTPUT_TOKENS <= contextWindow) {
+			return prompt;
 		}
 
-		return `${this.settings.systemPrompt}
+		const available = contextWindow - MAX_OUTPUT_TOKENS - estimateTokens(build({ ...input, context: '' }));
+		if (available <= 0) {
+			throw new Error(`The prompt is too long for the model's ${contextWindow.toLocaleString()} token context window. Select less text or include fewer related notes.`);
+		}
+		return build({ ...input, context: truncateToTokens(input.context, available) });
+	}
 
-반드시 응답의 첫 줄에 이 내용을 요약하는 간결한 제목을 작성해주세요. 제목은 "제목: "으로 시작하고, 20자 이내로 작성합니다.
+	private resolveProvider(options: RequestOptions): AIProvider {
+		return options.model?.provider || options.profile?.provider || this.settings.aiProvider;
+	}
 
----
-선택된 텍스트:
-"${selectedText}"
+	private resolveModel(providerId: AIProvider, webSearch: boolean, options: RequestOptions): string {
+		const config = getProviderConfig(this.settings, providerId);
+		const pinned = options.model ? options.model.model : options.profile?.model;
+		return pinned || (webSearch && config.webSearchModel) || config.model;
+	}
 
-주변 맥락:
-${context}${questionSection}
----`;
+	private getPromptStrings(selectedText: string, context: string): PromptStrings {
+		return getPromptStrings(resolveOutputLanguage(this.settings.outputLanguage, `${selectedText}\n${context}`));
+	}
+
+	/** The profile's prompt, or for a default profile without one its built-in prompt in the output language. */
+	private getProfilePrompt(profile: PromptProfile | null | undefined, strings: PromptStrings): string {
+		return profile ? profile.prompt || strings.profilePrompts[profile.id] || '' : '';
+	}
+
+	/** A redactor for one request, or `null` when redaction is off. */
+	private createRedactor(): Redactor | null {
+		if (!this.settings.redactionEnabled) {
+			return null;
+		}
+		return new Redactor({
+			detectors: this.settings.redactionDetectors,
+			patterns: this.settings.redactionPatterns,
+			terms: this.settings.redactionTerms,
+		});
 	}
 
-	private buildWebSearchPrompt(selectedText: string, context: string, userQuestion: string = ''): string {
+	private redactInput(input: PromptInput, redactor: Redactor | null): PromptInput {
+		if (!redactor) {
+			return input;
+		}
+		return {
+			selectedText: redactor.redact(input.selectedText),
+			context: redactor.redact(input.context),
+			userQuestion: redactor.redact(input.userQuestion),
+			existingNote: input.existingNote === undefined ? undefined : redactor.redact(input.existingNote),
+			relatedNotes: input.relatedNotes?.map(note => ({ title: redactor.redact(note.title), excerpt: redactor.redact(note.excerpt) })),
+			// Read last, once every field has been redacted.
+			redacted: redactor.size > 0,
+		};
+	}
+
+	/** Puts the redacted values back into the answer. A JSON answer gets them escaped, so it still parses. */
+	private restoreResponse(response: AIResponse, redactor: Redactor, json: boolean): void {
+		response.content = redactor.restore(response.content, json ? value => JSON.stringify(value).slice(1, -1) : undefined);
+		response.citations = response.citations.map(citation => ({
+			...citation,
+			title: redactor.restore(citation.title),
+			span: citation.span && { ...citation.span, text: redactor.restore(citation.span.text) },
+		}));
+	}
+
+	private composePrompt(instructions: string, directive: string, strings: PromptStrings, input: PromptInput): string {
 		let questionSection = '';
-		if (userQuestion.trim()) {
-			questionSection = `\n\n사용자의 추가 질문:\n"${userQuestion}"`;
+		if (input.userQuestion.trim()) {
+			questionSection = `\n\n${strings.question}:\n"${input.userQuestion}"`;
 		}
+		const existingNoteSection = input.existingNote !== undefined ? `${strings.existingNote}:\n${input.existingNote}\n---\n` : '';
 
-		return `다음 텍스트에 대해 웹 검색을 통해 최신 정보와 관련 내용을 찾아 설명해주세요.
+		const relatedNotes = input.relatedNotes || [];
+		const linkSection = relatedNotes.length > 0 ? `\n\n${strings.linkInstruction}` : '';
+		const placeholderSection = input.redacted ? `\n\n${strings.placeholderInstruction}` : '';
+		const relatedSection = relatedNotes.length > 0
+			? `\n\n${strings.relatedNotes}:\n${relatedNotes.map(note => `[[${note.title}]]\n${note.excerpt}`).join('\n\n')}`
+			: '';
 
-반드시 응답의 첫 줄에 이 내용을 요약하는 간결한 제목을 작성해주세요. 제목은 "제목: "으로 시작하고, 20자 이내로 작성합니다.
+		return `${instructions}
 
-1000자 이내로 작성하고, md 파일의 마크다운 형태를 유지해주세요. 기본적인 소제목은 '##'를 사용하고, 최대 '###'까지만 사용합니다.
+${directive}
 
-검색 결과의 출처가 있다면 문서 하단에 참고 자료로 링크를 포함해주세요.
+${strings.languageInstruction}${linkSection}${placeholderSection}
 
 ---
-선택된 텍스트:
-"${selectedText}"
+${existingNoteSection}${strings.selectedText}:
+"${input.selectedText}"
 
-주변 맥락:
-${context}${questionSection}
+${strings.context}:
+${input.context}${questionSection}${relatedSection}
 ---`;
 	}
 
@@ -121,8 +340,9 @@ ${context}${questionSection}
 		let title = '';
 		let contentStartIndex = 0;
 
-		if (lines[0].startsWith('제목:') || lines[0].startsWith('제목 :')) {
-			title = lines[0].replace(/^제목\s*:\s*/, '').trim();
+		const parsedTitle = parseTitleLine(lines[0]);
+		if (parsedTitle) {
+			title = parsedTitle;
 			contentStartIndex = 1;
 			
 			while (contentStartIndex < lines.length && lines[contentStartIndex].trim() === '') {
@@ -135,241 +355,274 @@ ${context}${questionSection}
 		return { title, content };
 	}
 
-	private isResponsesAPIModel(model: string): boolean {
-		return model.startsWith('gpt-5') || model.startsWith('gpt-4.1') || model.startsWith('o3') || model.startsWith('o4');
+	async listModels(providerId: AIProvider): Promise<string[]> {
+		const provider = getProvider(providerId);
+		if (!provider?.modelDiscovery) {
+			return provider ? provider.models.map(model => model.id) : [];
+		}
+
+		const data = await requestJson(provider.modelDiscovery.buildRequest(this.getConfig(provider)), this.transportOptions(provider));
+		return provider.modelDiscovery.parseResponse(data);
 	}
 
-	private async callOpenAI(prompt: string): Promise<AIResponse> {
-		if (!this.settings.openaiApiKey) {
-			throw new Error('OpenAI API key is not configured');
+	/** Embedding vectors for `texts`, in the same order. An empty `model` uses the provider's default embedding model. */
+	async embed(providerId: AIProvider, texts: string[], model: string, dimensions: number, signal?: AbortSignal): Promise<number[][]> {
+		const provider = getProvider(providerId);
+		if (!provider?.embeddings) {
+			throw new Error(`${provider?.name ?? providerId} does not offer embeddings`);
 		}
 
-		const model = this.settings.openaiModel || 'gpt-4o-mini';
-		console.log('OpenAI request - model:', model);
+		const config = this.getConfig(provider);
+		const redactor = this.createRedactor();
+		const sent = redactor ? texts.map(text => redactor.redact(text)) : texts;
 
-		if (this.isResponsesAPIModel(model)) {
-			return this.callOpenAIResponses(prompt, model);
-		} else {
-			return this.callOpenAIChatCompletions(prompt, model);
-		}
+		const request = provider.embeddings.buildRequest(sent, model || provider.embeddings.defaultModel, dimensions, config);
+		return provider.embeddings.parseResponse(await requestJson(request, this.transportOptions(provider, signal)));
 	}
 
-	private async callOpenAIChatCompletions(prompt: string, model: string): Promise<AIResponse> {
-		try {
-			const response = await requestUrl({
-				url: 'https://api.openai.com/v1/chat/completions',
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openaiApiKey}`,
-				},
-				body: JSON.stringify({
-					model: model,
-					messages: [
-						{ role: 'user', content: prompt }
-					],
-					temperature: 0.7,
-					max_tokens: 2000,
-				}),
-			});
+	/**
+	 * Sends the request to the resolved model, then down the fallback chain
+	 * while the failures are ones another provider or model may not run into.
+	 * Once text has streamed to the caller the request is not repeated.
+	 * Placeholders left by `redactor` are restored in the answer and in the
+	 * streamed chunks, even when one is split across two chunks.
+	 */
+	private async complete(providerId: AIProvider, messages: ChatMessage[], webSearch: boolean, options: RequestOptions, responseSchema?: ResponseSchema, redactor: Redactor | null = null): Promise<AIResponse> {
+		const candidates = this.getCandidateModels(providerId, webSearch, options, responseSchema);
+		let streamed = false;
+		const restoreChunk = redactor ? redactor.streamRestorer() : (chunk?: string) => chunk ?? '';
+		const emit = (text: string) => {
+			if (text) {
+				options.onChunk?.(text);
+			}
+		};
+		const attemptOptions: RequestOptions = {
+			...options,
+			onChunk: options.onChunk && ((chunk) => {
+				streamed = true;
+				emit(restoreChunk(chunk));
+			}),
+		};
 
-			const data = response.json;
-			const content = data.choices[0].message.content;
-			const usage = data.usage;
+		const failures: string[] = [];
+		for (let index = 0; ; index++) {
+			const candidate = candidates[index];
+			try {
+				const response = await this.completeWith(candidate.provider, candidate.model, messages, webSearch, attemptOptions, responseSchema);
+				emit(restoreChunk());
+				if (failures.length > 0) {
+					response.fallbackReason = failures.join('; ');
+					response.leftLocal = isLocalProvider(this.settings, providerId) && !isLocalProvider(this.settings, candidate.provider);
+				}
+				if (redactor) {
+					this.restoreResponse(response, redactor, !!responseSchema);
+				}
+				return response;
+			} catch (error) {
+				if (index === candidates.length - 1 || streamed || options.signal?.aborted || !canFallBack(error)) {
+					emit(restoreChunk());
+					if (canFallBack(error) && this.keepsPromptLocal(providerId, options)
+						&& this.settings.fallbackChain.some(entry => !isLocalProvider(this.settings, entry.provider))) {
+						error.message += ' The remote fallback models were not tried, so the prompt stayed on this machine. Allow them under "Fallback Models" in the settings.';
+					}
+					throw error;
+				}
+				console.warn(`Falling back from ${candidate.provider}/${candidate.model}:`, error.message);
+				failures.push(`${candidate.model}: ${error.kind}`);
+			}
+		}
+	}
 
-			return {
-				title: '',
-				content,
-				inputTokens: usage.prompt_tokens,
-				outputTokens: usage.completion_tokens,
-				totalTokens: usage.total_tokens,
-				estimatedCost: this.calculateCost('openai', model, usage.prompt_tokens, usage.completion_tokens),
-			};
-		} catch (error) {
-			console.error('OpenAI Chat Completions API error:', error);
-			console.error('Model used:', model);
-			throw error;
+	/**
+	 * The resolved model followed by the fallback chain, without duplicates
+	 * and without models whose provider lacks web search or structured output
+	 * when the request needs it. A model pinned with `options.model` has no
+	 * fallbacks, and a local provider only falls back to remote ones when the
+	 * settings allow it.
+	 */
+	private getCandidateModels(providerId: AIProvider, webSearch: boolean, options: RequestOptions, responseSchema?: ResponseSchema): ModelChoice[] {
+		const candidates: ModelChoice[] = [{ provider: providerId, model: this.resolveModel(providerId, webSearch, options) }];
+		if (options.model) {
+			return candidates;
+		}
+		const keepLocal = this.keepsPromptLocal(providerId, options);
+		for (const entry of this.settings.fallbackChain) {
+			const provider = getProvider(entry.provider);
+			if (!provider || (webSearch && !provider.capabilities.webSearch) || (responseSchema && !provider.capabilities.jsonMode)) {
+				continue;
+			}
+			if (keepLocal && !isLocalProvider(this.settings, entry.provider)) {
+				continue;
+			}
+			const config = getProviderConfig(this.settings, entry.provider);
+			const model = entry.model || (webSearch && config.webSearchModel) || config.model;
+			if (model && !candidates.some(candidate => candidate.provider === entry.provider && candidate.model === model)) {
+				candidates.push({ provider: entry.provider, model });
+			}
 		}
+		return candidates;
 	}
 
-	private async callOpenAIResponses(prompt: string, model: string): Promise<AIResponse> {
-		try {
-			const response = await requestUrl({
-				url: 'https://api.openai.com/v1/responses',
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openaiApiKey}`,
-				},
-				body: JSON.stringify({
-					model: model,
-					input: prompt,
-				}),
+	/** Whether the request goes to a local provider that must not fall back to remote ones. */
+	private keepsPromptLocal(providerId: AIProvider, options: RequestOptions): boolean {
+		return !options.model && !this.settings.allowRemoteFallback && isLocalProvider(this.settings, providerId);
+	}
+
+	private async completeWith(providerId: AIProvider, model: string, messages: ChatMessage[], webSearch: boolean, options: RequestOptions, responseSchema?: ResponseSchema): Promise<AIResponse> {
+		const provider = getProvider(providerId);
+		if (!provider) {
+			throw new Error(`Unknown AI provider: ${providerId}`);
+		}
+		if (webSearch && !provider.capabilities.webSearch) {
+			throw new Error(`${provider.name} does not support web search`);
+		}
+
+		const config = this.getConfig(provider);
+
+		if (options.onBeforeRequest) {
+			await options.onBeforeRequest({
+				provider: providerId,
+				model,
+				estimatedCost: this.calculateCost(providerId, model, estimateTokens(messages.map(message => message.content).join('\n')), MAX_OUTPUT_TOKENS),
 			});
+		}
 
-			const data = response.json;
-			
-			let content = '';
-			if (data.output && Array.isArray(data.output)) {
-				for (const item of data.output) {
-					if (item.type === 'message' && item.content) {
-						for (const contentItem of item.content) {
-							if (contentItem.type === 'output_text') {
-								content += contentItem.text;
-							}
-						}
-					}
-				}
-			}
+		const stream = !!options.onChunk && provider.capabilities.streaming;
+		const request = provider.buildRequest({
+			model,
+			messages,
+			webSearch,
+			stream,
+			responseSchema,
+		}, config);
 
-			const usage = data.usage || { input_tokens: 0, output_tokens: 0 };
-			const inputTokens = usage.input_tokens || 0;
-			const outputTokens = usage.output_tokens || 0;
+		try {
+			// Of a structured response only the body is streamed; the rest is used once the whole object has arrived.
+			const completion = stream
+				? await this.streamCompletion(provider, request, responseSchema && options.onChunk
+					? { ...options, onChunk: streamJsonField('body', options.onChunk) }
+					: options, !!responseSchema)
+				: await this.requestCompletion(provider, request, options.signal);
 
 			return {
 				title: '',
-				content,
-				inputTokens,
-				outputTokens,
-				totalTokens: inputTokens + outputTokens,
-				estimatedCost: this.calculateCost('openai', model, inputTokens, outputTokens),
+				content: completion.content,
+				citations: completion.citations,
+				tags: [],
+				aliases: [],
+				related: [],
+				provider: providerId,
+				model,
+				inputTokens: completion.inputTokens,
+				outputTokens: completion.outputTokens,
+				totalTokens: completion.inputTokens + completion.outputTokens,
+				estimatedCost: this.calculateCost(providerId, model, completion.inputTokens, completion.outputTokens, completion.cachedInputTokens),
 			};
 		} catch (error) {
-			console.error('OpenAI Responses API error:', error);
+			console.error(`${provider.name} API error:`, error);
 			console.error('Model used:', model);
 			throw error;
 		}
 	}
 
-	private async callOpenAIWebSearch(prompt: string): Promise<AIResponse> {
-		if (!this.settings.openaiApiKey) {
-			throw new Error('OpenAI API key is not configured');
-		}
-
-		const response = await requestUrl({
-			url: 'https://api.openai.com/v1/responses',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${this.settings.openaiApiKey}`,
-			},
-			body: JSON.stringify({
-				model: this.settings.openaiWebSearchModel,
-				tools: [{ type: 'web_search_preview' }],
-				input: prompt,
-			}),
-		});
-
-		const data = response.json;
-		
-		let content = '';
-		if (data.output && Array.isArray(data.output)) {
-			for (const item of data.output) {
-				if (item.type === 'message' && item.content) {
-					for (const contentItem of item.content) {
-						if (contentItem.type === 'output_text') {
-							content += contentItem.text;
-						}
-					}
+	/**
+	 * The provider's settings with environment variable references resolved.
+	 * Throws when a required field is empty.
+	 */
+	private getConfig(provider: AIProviderDefinition): ProviderConfig {
+		const config = getProviderConfig(this.settings, provider.id);
+		for (const field of provider.settings) {
+			const envName = field.type === 'secret' ? getEnvReference(config[field.key] || '') : null;
+			if (envName !== null) {
+				config[field.key] = resolveEnvReference(config[field.key]);
+				if (!config[field.key] && field.required) {
+					throw new ProviderError('not-configured', `The environment variable ${envName} for ${field.name} is not set.`);
 				}
 			}
+			if (field.required && !config[field.key]) {
+				throw new ProviderError('not-configured', field.type === 'secret' && this.secretsLocked()
+					? 'API keys are locked. Run "Unlock API keys" and enter your passphrase.'
+					: `${field.name} is not configured. Add it in the plugin settings.`);
+			}
 		}
-
-		const usage = data.usage || { input_tokens: 0, output_tokens: 0 };
-		const inputTokens = usage.input_tokens || 0;
-		const outputTokens = usage.output_tokens || 0;
-
-		return {
-			title: '',
-			content,
-			inputTokens,
-			outputTokens,
-			totalTokens: inputTokens + outputTokens,
-			estimatedCost: this.calculateCost('openai', this.settings.openaiWebSearchModel, inputTokens, outputTokens),
-		};
+		return config;
 	}
 
-	private async callGemini(prompt: string): Promise<AIResponse> {
-		if (!this.settings.geminiApiKey) {
-			throw new Error('Gemini API key is not configured');
-		}
-
-		const response = await requestUrl({
-			url: `https://generativelanguage.googleapis.com/v1beta/models/${this.settings.geminiModel}:generateContent?key=${this.settings.geminiApiKey}`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify({
-				contents: [{
-					parts: [{ text: prompt }]
-				}],
-				generationConfig: {
-					temperature: 0.7,
-					maxOutputTokens: 2000,
-				},
-			}),
-		});
-
-		const data = response.json;
-		const content = data.candidates[0].content.parts[0].text;
-		const metadata = data.usageMetadata;
+	private async requestCompletion(provider: AIProviderDefinition, request: HttpRequest, signal?: AbortSignal): Promise<Completion> {
+		return provider.parseResponse(await requestJson(request, this.transportOptions(provider, signal)));
+	}
 
+	private transportOptions(provider: AIProviderDefinition, signal?: AbortSignal): TransportOptions {
 		return {
-			title: '',
-			content,
-			inputTokens: metadata.promptTokenCount,
-			outputTokens: metadata.candidatesTokenCount,
-			totalTokens: metadata.totalTokenCount,
-			estimatedCost: this.calculateCost('gemini', this.settings.geminiModel, metadata.promptTokenCount, metadata.candidatesTokenCount),
+			providerName: provider.name,
+			timeout: this.settings.requestTimeout * 1000,
+			maxRetries: this.settings.maxRetries,
+			signal,
 		};
 	}
 
-	private async callClaude(prompt: string): Promise<AIResponse> {
-		if (!this.settings.claudeApiKey) {
-			throw new Error('Claude API key is not configured');
-		}
+	private async streamCompletion(provider: AIProviderDefinition, request: HttpRequest, options: RequestOptions, structured: boolean = false): Promise<Completion> {
+		const completion: Completion = { content: '', citations: [], inputTokens: 0, outputTokens: 0 };
+		let blockStart = 0;
+		let blockCitations: Citation[] = [];
 
-		const response = await requestUrl({
-			url: 'https://api.anthropic.com/v1/messages',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'x-api-key': this.settings.claudeApiKey,
-				'anthropic-version': '2023-06-01',
-			},
-			body: JSON.stringify({
-				model: this.settings.claudeModel,
-				max_tokens: 2000,
-				messages: [
-					{ role: 'user', content: prompt }
-				],
-			}),
+		await streamEvents(request, this.transportOptions(provider, options.signal), (event) => {
+			if (!event.data || event.data === '[DONE]') {
+				return;
+			}
+			const delta = provider.parseStreamEvent(JSON.parse(event.data));
+			if (structured && delta.toolInput) {
+				delta.text = (delta.text ?? '') + delta.toolInput;
+			}
+			if (delta.resetText) {
+				completion.content = '';
+				completion.citations = completion.citations.filter(citation => !citation.span);
+			}
+			if (delta.blockStart) {
+				blockStart = completion.content.length;
+				blockCitations = [];
+			}
+			if (delta.citations) {
+				completion.citations = uniqueCitations([...completion.citations, ...delta.citations]);
+			}
+			if (delta.blockCitations) {
+				blockCitations.push(...delta.blockCitations);
+			}
+			if (delta.text) {
+				completion.content += delta.text;
+				options.onChunk?.(delta.text);
+			}
+			if (delta.inputTokens !== undefined) {
+				completion.inputTokens = delta.inputTokens;
+			}
+			if (delta.cachedInputTokens !== undefined) {
+				completion.cachedInputTokens = delta.cachedInputTokens;
+			}
+			if (delta.outputTokens !== undefined) {
+				completion.outputTokens = delta.outputTokens;
+			}
+			if (delta.blockEnd && blockCitations.length > 0) {
+				const span = { text: completion.content.slice(blockStart), start: blockStart, end: completion.content.length };
+				completion.citations = uniqueCitations([...completion.citations, ...blockCitations.map(citation => ({ ...citation, span }))]);
+				blockCitations = [];
+			}
 		});
 
-		const data = response.json;
-		const content = data.content[0].text;
-		const usage = data.usage;
-
-		return {
-			title: '',
-			content,
-			inputTokens: usage.input_tokens,
-			outputTokens: usage.output_tokens,
-			totalTokens: usage.input_tokens + usage.output_tokens,
-			estimatedCost: this.calculateCost('claude', this.settings.claudeModel, usage.input_tokens, usage.output_tokens),
-		};
+		return completion;
 	}
 
-	private calculateCost(provider: AIProvider, model: string, inputTokens: number, outputTokens: number): number {
-		const providerPricing = PRICING_PER_MILLION_TOKENS[provider] as Record<string, { input: number; output: number }>;
-		const modelPricing = providerPricing[model];
+	private calculateCost(providerId: AIProvider, model: string, inputTokens: number, outputTokens: number, cachedInputTokens: number = 0): number | null {
+		const provider = getProvider(providerId);
+		const modelPricing = provider?.getPricing?.(model, getProviderConfig(this.settings, providerId))
+			?? findModel(this.settings, providerId, model)?.pricing;
 		
 		if (!modelPricing) {
-			return 0;
+			return null;
 		}
 
-		const inputCost = (inputTokens / 1_000_000) * modelPricing.input;
+		const cached = Math.min(cachedInputTokens, inputTokens);
+		const cachedPrice = modelPricing.cachedInput ?? modelPricing.input;
+		const inputCost = ((inputTokens - cached) / 1_000_000) * modelPricing.input + (cached / 1_000_000) * cachedPrice;
 		const outputCost = (outputTokens / 1_000_000) * modelPricing.output;
 		
 		return inputCost + outputCost;
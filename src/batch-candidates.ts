@@ -0,0 +1,118 @@
+import { App, TFile } from 'obsidian';
+import { FRONT_MATTER_PATTERN } from './template-engine';
+
+export type CandidateKind = 'link' | 'highlight' | 'bold' | 'pattern';
+
+/** A term in a note that can be expanded and replaced with a link to its note. */
+export interface BatchCandidate {
+	kind: CandidateKind;
+	/** The term sent for expansion. */
+	text: string;
+	/** Text shown in the link that replaces it. */
+	linkText: string;
+	/** The markup as written in the note, e.g. `==term==`. */
+	original: string;
+	offset: number;
+	line: number;
+}
+
+const MAX_TERM_LENGTH = 100;
+
+const LINK_PATTERN = /(!?)\[\[([^\]|#^\n]+)(?:[#^][^\]|\n]*)?(?:\|([^\]\n]+))?\]\]/g;
+const HIGHLIGHT_PATTERN = /==([^=\n]+)==/g;
+const BOLD_PATTERN = /(\*\*|__)(\S(?:[^\n]*?\S)?)\1/g;
+
+/** Blanks out frontmatter and code, keeping offsets, so nothing inside them is picked up. */
+function maskIgnoredText(content: string): string {
+	const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+	return content
+		.replace(FRONT_MATTER_PATTERN, blank)
+		.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, blank)
+		.replace(/`[^`\n]+`/g, blank);
+}
+
+function lineAt(content: string, offset: number): number {
+	return content.slice(0, offset).split('\n').length - 1;
+}
+
+/**
+ * Finds unresolved links, highlights, bold terms and matches of `pattern`
+ * in `content`, first occurrence of each term only. When `pattern` has a
+ * capture group, the group is the term. Throws when `pattern` is invalid.
+ */
+export function findBatchCandidates(app: App, file: TFile, content: string, pattern: string): BatchCandidate[] {
+	const masked = maskIgnoredText(content);
+	const candidates: BatchCandidate[] = [];
+	const add = (kind: CandidateKind, text: string, linkText: string, original: string, offset: number) => {
+		text = text.trim();
+		// Matches running into masked code would not be found in the note again.
+		const intact = content.substr(offset, original.length) === original;
+		if (intact && text && text.length <= MAX_TERM_LENGTH && !text.includes('[[')) {
+			candidates.push({ kind, text, linkText: linkText.trim(), original, offset, line: lineAt(content, offset) });
+		}
+	};
+
+	let match: RegExpExecArray | null;
+	LINK_PATTERN.lastIndex = 0;
+	while ((match = LINK_PATTERN.exec(masked)) !== null) {
+		const [original, embed, target, alias] = match;
+		if (!embed && !app.metadataCache.getFirstLinkpathDest(target.trim(), file.path)) {
+			add('link', target, alias || target, original, match.index);
+		}
+	}
+
+	HIGHLIGHT_PATTERN.lastIndex = 0;
+	while ((match = HIGHLIGHT_PATTERN.exec(masked)) !== null) {
+		add('highlight', match[1], match[1], match[0], match.index);
+	}
+
+	BOLD_PATTERN.lastIndex = 0;
+	while ((match = BOLD_PATTERN.exec(masked)) !== null) {
+		add('bold', match[2], match[2], match[0], match.index);
+	}
+
+	if (pattern) {
+		const regex = new RegExp(pattern, 'g');
+		while ((match = regex.exec(masked)) !== null) {
+			if (!match[0]) {
+				regex.lastIndex++;
+				continue;
+			}
+			const term = match[1] ?? match[0];
+			add('pattern', term, term, match[0], match.index);
+		}
+	}
+
+	const seen = new Set<string>();
+	return candidates
+		.sort((a, b) => a.offset - b.offset)
+		.filter(candidate => {
+			const key = candidate.text.toLowerCase();
+			if (seen.has(key)) {
+				return false;
+			}
+			seen.add(key);
+			return true;
+		});
+}
+
+/** The markup that replaces `candidate` once it links to `basename`. */
+export function linkCandidate(candidate: BatchCandidate, basename: string): string {
+	const link = `[[${basename}|${candidate.linkText}]]`;
+	return candidate.kind === 'link' ? link : candidate.original.replace(candidate.linkText, link);
+}
+
+/**
+ * Replaces the occurrence of `original` closest to `offset`, since earlier
+ * replacements in the same note move everything after them. Returns `null`
+ * when the text is no longer in the note.
+ */
+export function replaceNearest(content: string, original: string, replacement: string, offset: number): string | null {
+	let best = -1;
+	for (let index = content.indexOf(original); index !== -1; index = content.indexOf(original, index + 1)) {
+		if (best === -1 || Math.abs(index - offset) < Math.abs(best - offset)) {
+			best = index;
+		}
+	}
+	return best === -1 ? null : content.slice(0, best) + replacement + content.slice(best + original.length);
+}
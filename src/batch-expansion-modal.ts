@@ -0,0 +1,107 @@
+import { App, Modal, Setting, TFile, ToggleComponent } from 'obsidian';
+import { BatchCandidate, CandidateKind } from './batch-candidates';
+import { t } from './i18n';
+
+export interface BatchItem {
+	candidate: BatchCandidate;
+	/** An earlier expansion of the term, which is linked instead of expanded again. */
+	existing: TFile | null;
+	/** `null` when the model has no price in the catalog. */
+	estimatedCost: number | null;
+}
+
+const KIND_LABELS: Record<CandidateKind, 'candidateLink' | 'candidateHighlight' | 'candidateBold' | 'candidatePattern'> = {
+	link: 'candidateLink',
+	highlight: 'candidateHighlight',
+	bold: 'candidateBold',
+	pattern: 'candidatePattern',
+};
+
+/** A checklist of the terms found in a note, with the estimated cost of expanding the chosen ones. */
+export class BatchExpansionModal extends Modal {
+	private items: BatchItem[];
+	private onConfirm: (items: BatchItem[]) => void;
+	private selected = new Set<BatchItem>();
+	private toggles: ToggleComponent[] = [];
+	private totalEl: HTMLElement;
+
+	constructor(app: App, items: BatchItem[], onConfirm: (items: BatchItem[]) => void) {
+		super(app);
+		this.items = items;
+		this.onConfirm = onConfirm;
+		items.forEach(item => this.selected.add(item));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: t('batchTitle') });
+		contentEl.createEl('p', { text: t('batchDesc') });
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(t('selectAll'))
+				.onClick(() => this.toggles.forEach(toggle => toggle.setValue(true))))
+			.addButton(btn => btn
+				.setButtonText(t('selectNone'))
+				.onClick(() => this.toggles.forEach(toggle => toggle.setValue(false))));
+
+		const listEl = contentEl.createEl('div');
+		for (const item of this.items) {
+			const details = [
+				t(KIND_LABELS[item.candidate.kind]),
+				item.existing
+					? `${t('batchExisting')} ${item.existing.basename}`
+					: item.estimatedCost !== null ? `~$${item.estimatedCost.toFixed(4)}` : '',
+			].filter(Boolean);
+
+			new Setting(listEl)
+				.setName(item.candidate.text)
+				.setDesc(details.join(' · '))
+				.addToggle(toggle => {
+					this.toggles.push(toggle);
+					toggle
+						.setValue(true)
+						.onChange(value => {
+							if (value) {
+								this.selected.add(item);
+							} else {
+								this.selected.delete(item);
+							}
+							this.updateTotal();
+						});
+				});
+		}
+
+		this.totalEl = contentEl.createEl('p');
+		this.updateTotal();
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(t('expand'))
+				.setCta()
+				.onClick(() => {
+					const chosen = this.items.filter(item => this.selected.has(item));
+					if (chosen.length === 0) {
+						return;
+					}
+					this.close();
+					this.onConfirm(chosen);
+				}))
+			.addButton(btn => btn
+				.setButtonText(t('cancel'))
+				.onClick(() => {
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private updateTotal(): void {
+		const expanded = this.items.filter(item => this.selected.has(item) && !item.existing);
+		const total = expanded.reduce((sum, item) => sum + (item.estimatedCost ?? 0), 0);
+		const unknown = expanded.some(item => item.estimatedCost === null) ? ` (${t('batchUnknownCost')})` : '';
+		this.totalEl.setText(`${t('batchTotal')}: $${total.toFixed(4)}${unknown} · ${this.selected.size}/${this.items.length}`);
+	}
+}
@@ -0,0 +1,217 @@
+import { Component, ItemView, MarkdownRenderer, Notice, Setting, WorkspaceLeaf } from 'obsidian';
+import { AIResponse } from './types';
+
+export const COMPARISON_VIEW_TYPE = 'knowledge-expander-comparison';
+
+export const MAX_COMPARED_MODELS = 3;
+
+/** Saves `content` as the expansion note; `sources` are the answers it was taken from. Resolves with whether it was saved. */
+export type ComparisonSaveHandler = (content: string, sources: AIResponse[]) => Promise<boolean>;
+
+interface Column {
+	statusEl: HTMLElement;
+	bodyEl: HTMLElement;
+	buffer: string;
+	response: AIResponse | null;
+	sections: string[];
+	selected: Set<number>;
+}
+
+/** Splits an answer at its top-level headings, so sections can be picked from different answers. */
+export function splitSections(content: string): string[] {
+	const sections: string[] = [];
+	let current: string[] = [];
+	const flush = () => {
+		const section = current.join('\n').trim();
+		if (section) {
+			sections.push(section);
+		}
+		current = [];
+	};
+
+	for (const line of content.split('\n')) {
+		if (/^#{1,2}\s/.test(line)) {
+			flush();
+		}
+		current.push(line);
+	}
+	flush();
+	return sections;
+}
+
+function formatLatency(ms: number): string {
+	return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * The answers of several models to the same prompt, side by side. One answer
+ * can be saved as the note, or sections picked from several of them.
+ */
+export class ModelComparisonView extends ItemView {
+	private titleEl: HTMLElement;
+	private columnsEl: HTMLElement;
+	private footerEl: HTMLElement;
+	private columns: Column[] = [];
+	/** Identifies the latest comparison, so answers arriving for an earlier one are dropped. */
+	private run = 0;
+	private onSave: ComparisonSaveHandler | null = null;
+	private renderComponent: Component | null = null;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return COMPARISON_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Model Comparison';
+	}
+
+	getIcon(): string {
+		return 'columns';
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('knowledge-expander-comparison');
+
+		this.titleEl = container.createEl('h3', { text: 'Run "Compare models" on a selection to see answers here.' });
+		this.columnsEl = container.createEl('div');
+		this.columnsEl.style.display = 'flex';
+		this.columnsEl.style.gap = '1em';
+		this.footerEl = container.createEl('div');
+	}
+
+	async onClose() {
+		this.clearRendered();
+	}
+
+	/** Clears the view for a new comparison and returns its run, which the other calls take. */
+	start(title: string, labels: string[], onSave: ComparisonSaveHandler): number {
+		this.clearRendered();
+		this.renderComponent = new Component();
+		this.addChild(this.renderComponent);
+		this.onSave = onSave;
+
+		this.titleEl.setText(title);
+		this.columnsEl.empty();
+		this.footerEl.empty();
+		this.columns = labels.map(label => {
+			const columnEl = this.columnsEl.createEl('div');
+			columnEl.style.flex = '1';
+			columnEl.style.minWidth = '0';
+			columnEl.createEl('h4', { text: label });
+			return {
+				statusEl: columnEl.createEl('div', { text: '⏳ Waiting...' }),
+				bodyEl: columnEl.createEl('div', { cls: 'markdown-rendered' }),
+				buffer: '',
+				response: null,
+				sections: [],
+				selected: new Set<number>(),
+			};
+		});
+		return ++this.run;
+	}
+
+	append(run: number, index: number, chunk: string): void {
+		const column = this.getColumn(run, index);
+		if (!column || column.response) {
+			return;
+		}
+		column.buffer += chunk;
+		column.statusEl.setText('✍️ Writing...');
+		column.bodyEl.setText(column.buffer);
+	}
+
+	finish(run: number, index: number, response: AIResponse, latency: number): void {
+		const column = this.getColumn(run, index);
+		if (!column) {
+			return;
+		}
+		column.response = response;
+		column.sections = splitSections(response.content);
+		const cost = response.estimatedCost === null ? 'unknown cost' : `$${response.estimatedCost.toFixed(6)}`;
+		column.statusEl.setText(`📊 ${response.totalTokens} tokens (${response.inputTokens} in / ${response.outputTokens} out) · ⏱️ ${formatLatency(latency)} · 💰 ${cost}`);
+
+		column.bodyEl.empty();
+		new Setting(column.bodyEl)
+			.addButton(button => button
+				.setButtonText('Use this answer')
+				.onClick(() => this.save(response.content, [response])));
+
+		column.sections.forEach((section, sectionIndex) => {
+			const sectionEl = column.bodyEl.createEl('div');
+			const label = sectionEl.createEl('label');
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			label.appendText(' Include in merge');
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					column.selected.add(sectionIndex);
+				} else {
+					column.selected.delete(sectionIndex);
+				}
+			});
+			const contentEl = sectionEl.createEl('div');
+			if (this.renderComponent) {
+				MarkdownRenderer.render(this.app, section, contentEl, '', this.renderComponent);
+			}
+		});
+
+		this.renderFooter();
+	}
+
+	fail(run: number, index: number, message: string): void {
+		const column = this.getColumn(run, index);
+		if (column) {
+			column.statusEl.setText(`❌ ${message}`);
+		}
+	}
+
+	private getColumn(run: number, index: number): Column | undefined {
+		return run === this.run ? this.columns[index] : undefined;
+	}
+
+	private renderFooter(): void {
+		if (this.footerEl.childElementCount > 0) {
+			return;
+		}
+		new Setting(this.footerEl)
+			.setDesc('Tick sections in any of the answers to save them together, in column order.')
+			.addButton(button => button
+				.setButtonText('Save selected sections')
+				.setCta()
+				.onClick(() => {
+					const sources = this.columns.filter(column => column.response && column.selected.size > 0);
+					if (sources.length === 0) {
+						new Notice('Tick at least one section to save');
+						return;
+					}
+					const content = sources
+						.map(column => column.sections.filter((_, index) => column.selected.has(index)).join('\n\n'))
+						.join('\n\n');
+					this.save(content, sources.map(column => column.response as AIResponse));
+				}));
+	}
+
+	private async save(content: string, sources: AIResponse[]): Promise<void> {
+		const onSave = this.onSave;
+		if (!onSave) {
+			new Notice('This comparison was already saved');
+			return;
+		}
+		this.onSave = null;
+		if (!await onSave(content, sources)) {
+			this.onSave = onSave;
+		}
+	}
+
+	private clearRendered(): void {
+		if (this.renderComponent) {
+			this.removeChild(this.renderComponent);
+			this.renderComponent = null;
+		}
+	}
+}
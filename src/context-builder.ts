@@ -0,0 +1,152 @@
+import { FRONT_MATTER_PATTERN } from './template-engine';
+import { estimateTokens } from './tokens';
+
+/**
+ * How much of the note around the selection goes into the prompt:
+ * - `lines`: a fixed number of lines above and below the selection
+ * - `paragraph`: the paragraph (block of non-empty lines) around the selection
+ * - `section`: the section under the nearest heading above the selection
+ * - `note`: the whole note, cut down around the selection to the token budget
+ * - `outline`: the frontmatter and the note's headings
+ */
+export type ContextMode = 'lines' | 'paragraph' | 'section' | 'note' | 'outline';
+
+export const CONTEXT_MODE_NAMES: Record<ContextMode, string> = {
+	lines: 'Fixed line count',
+	paragraph: 'Current paragraph',
+	section: 'Heading section',
+	note: 'Full note (up to the token budget)',
+	outline: 'Frontmatter and headings outline',
+};
+
+export interface ContextOptions {
+	mode: ContextMode;
+	/** Lines on each side of the selection in `lines` mode. */
+	lineCount: number;
+	/** Upper bound for the context in every mode. */
+	tokenBudget: number;
+}
+
+interface LineRange {
+	start: number;
+	/** Inclusive. */
+	end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+\S/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/** The heading level of each line, 0 for non-headings and lines inside code blocks. */
+function headingLevels(lines: string[]): number[] {
+	let inFence = false;
+	return lines.map(line => {
+		if (FENCE_PATTERN.test(line)) {
+			inFence = !inFence;
+			return 0;
+		}
+		const match = !inFence && line.match(HEADING_PATTERN);
+		return match ? match[1].length : 0;
+	});
+}
+
+function paragraphRange(lines: string[], from: number, to: number): LineRange {
+	let start = from;
+	while (start > 0 && lines[start - 1].trim()) {
+		start--;
+	}
+	let end = to;
+	while (end < lines.length - 1 && lines[end + 1].trim()) {
+		end++;
+	}
+	return { start, end };
+}
+
+function sectionRange(lines: string[], from: number, to: number, bodyStart: number): LineRange {
+	const levels = headingLevels(lines);
+	let start = from;
+	while (start > bodyStart && !levels[start]) {
+		start--;
+	}
+	// A selection spanning headings belongs to the shallowest of them.
+	let level = levels[start] || 7;
+	for (let i = start; i <= to; i++) {
+		if (levels[i] && levels[i] < level) {
+			level = levels[i];
+		}
+	}
+
+	let end = to;
+	while (end < lines.length - 1 && !(levels[end + 1] && levels[end + 1] <= level)) {
+		end++;
+	}
+	return { start, end };
+}
+
+function outline(lines: string[], frontMatter: string): string {
+	const levels = headingLevels(lines);
+	const headings = lines.filter((line, index) => levels[index] > 0);
+	return [frontMatter.trim(), ...headings].filter(Boolean).join('\n');
+}
+
+/**
+ * Takes lines from `range` outward from the selection, one side at a time,
+ * until the token budget is used up.
+ */
+function fitAround(lines: string[], range: LineRange, from: number, to: number, tokenBudget: number): string {
+	let start = Math.max(range.start, from);
+	let end = Math.min(range.end, to);
+	let tokens = estimateTokens(lines.slice(start, end + 1).join('\n'));
+
+	let above = true;
+	while (start > range.start || end < range.end) {
+		const takeAbove = above ? start > range.start : end >= range.end;
+		const line = takeAbove ? lines[start - 1] : lines[end + 1];
+		const lineTokens = estimateTokens(line) + 1;
+		if (tokens + lineTokens > tokenBudget) {
+			break;
+		}
+		tokens += lineTokens;
+		if (takeAbove) {
+			start--;
+		} else {
+			end++;
+		}
+		above = !above;
+	}
+	return lines.slice(start, end + 1).join('\n');
+}
+
+/**
+ * The surrounding context of a selection spanning lines `from` to `to` of
+ * `content`, in the given mode.
+ */
+export function buildContext(content: string, from: number, to: number, options: ContextOptions): string {
+	const lines = content.split('\n');
+	const frontMatter = content.match(FRONT_MATTER_PATTERN)?.[0] ?? '';
+	const bodyStart = frontMatter ? frontMatter.split('\n').length - 1 : 0;
+
+	let range: LineRange;
+	switch (options.mode) {
+		case 'outline': {
+			const outlineLines = outline(lines.slice(bodyStart), frontMatter).split('\n');
+			return fitAround(outlineLines, { start: 0, end: outlineLines.length - 1 }, 0, 0, options.tokenBudget);
+		}
+		case 'paragraph':
+			range = paragraphRange(lines, from, to);
+			break;
+		case 'section':
+			range = sectionRange(lines, from, to, bodyStart);
+			break;
+		case 'note':
+			range = { start: bodyStart, end: lines.length - 1 };
+			break;
+		case 'lines':
+		default:
+			range = {
+				start: Math.max(0, from - options.lineCount),
+				end: Math.min(lines.length - 1, to + options.lineCount),
+			};
+			break;
+	}
+	return fitAround(lines, range, from, to, options.tokenBudget);
+}
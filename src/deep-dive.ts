@@ -0,0 +1,50 @@
+import { TFile } from 'obsidian';
+
+/** A note of a deep dive and the notes made for the concepts it mentions. */
+export interface DeepDiveNode {
+	file: TFile;
+	concept: string;
+	/** The note already existed and was linked rather than generated. */
+	existing: boolean;
+	children: DeepDiveNode[];
+}
+
+/**
+ * Up to `limit` concepts to expand next, preferring the ones the model
+ * suggested over extracted keywords. Concepts in `seen` are skipped, and the
+ * chosen ones are added to it so no concept is expanded twice in a run.
+ */
+export function pickConcepts(suggested: string[], keywords: string[], limit: number, seen: Set<string>): string[] {
+	const concepts: string[] = [];
+	for (const concept of [...suggested, ...keywords]) {
+		const key = concept.trim().toLowerCase();
+		if (concepts.length >= limit) {
+			break;
+		}
+		if (key && !seen.has(key)) {
+			seen.add(key);
+			concepts.push(concept.trim());
+		}
+	}
+	return concepts;
+}
+
+function linkTo(node: DeepDiveNode): string {
+	return `[[${node.file.basename}|${node.concept}]]`;
+}
+
+/** The section listing a note's sub-concepts, appended to the note. */
+export function formatSubtopics(node: DeepDiveNode, heading: string): string {
+	return `## ${heading}\n\n${node.children.map(child => `- ${linkTo(child)}`).join('\n')}`;
+}
+
+/** A nested list of every note in the deep dive, for the top note. */
+export function formatMapOfContent(root: DeepDiveNode, heading: string): string {
+	const lines: string[] = [];
+	const walk = (node: DeepDiveNode, depth: number) => {
+		lines.push(`${'\t'.repeat(depth)}- ${linkTo(node)}`);
+		node.children.forEach(child => walk(child, depth + 1));
+	};
+	walk(root, 0);
+	return `## ${heading}\n\n${lines.join('\n')}`;
+}
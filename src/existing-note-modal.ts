@@ -0,0 +1,50 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { t } from './i18n';
+
+export type ExistingNoteAction = 'append' | 'merge' | 'link' | 'create';
+
+/** Asks what to do when the selection already has an expansion note. */
+export class ExistingNoteModal extends Modal {
+	private file: TFile;
+	private onChoose: (action: ExistingNoteAction) => void;
+
+	constructor(app: App, file: TFile, onChoose: (action: ExistingNoteAction) => void) {
+		super(app);
+		this.file = file;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: t('existingNoteTitle') });
+		contentEl.createEl('p', { text: `${t('existingNoteDesc')} "${this.file.basename}"` });
+
+		const actions: { action: ExistingNoteAction; name: string; desc: string }[] = [
+			{ action: 'append', name: t('appendSection'), desc: t('appendSectionDesc') },
+			{ action: 'merge', name: t('mergeNote'), desc: t('mergeNoteDesc') },
+			{ action: 'link', name: t('linkNote'), desc: t('linkNoteDesc') },
+			{ action: 'create', name: t('createNote'), desc: t('createNoteDesc') },
+		];
+
+		for (const { action, name, desc } of actions) {
+			new Setting(contentEl)
+				.setName(name)
+				.setDesc(desc)
+				.addButton(btn => {
+					btn
+						.setButtonText(name)
+						.onClick(() => {
+							this.close();
+							this.onChoose(action);
+						});
+					if (action === 'append') {
+						btn.setCta();
+					}
+				});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
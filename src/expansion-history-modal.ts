@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal, moment } from 'obsidian';
+import { ExpansionHistoryEntry } from './expansion-history';
+
+export class ExpansionHistoryModal extends FuzzySuggestModal<ExpansionHistoryEntry> {
+	private entries: ExpansionHistoryEntry[];
+	private onUndo: (entry: ExpansionHistoryEntry) => void;
+
+	constructor(app: App, entries: ExpansionHistoryEntry[], onUndo: (entry: ExpansionHistoryEntry) => void) {
+		super(app);
+		this.entries = entries;
+		this.onUndo = onUndo;
+		this.setPlaceholder('Select an expansion to undo');
+	}
+
+	getItems(): ExpansionHistoryEntry[] {
+		return this.entries;
+	}
+
+	getItemText(entry: ExpansionHistoryEntry): string {
+		const notes = entry.createdNotes.length + entry.updatedNotes.length;
+		return `${moment(entry.timestamp).format('YYYY-MM-DD HH:mm')} · ${entry.label} · ${notes} note${notes === 1 ? '' : 's'} in ${entry.sourcePath}`;
+	}
+
+	onChooseItem(entry: ExpansionHistoryEntry): void {
+		this.onUndo(entry);
+	}
+}
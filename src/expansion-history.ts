@@ -0,0 +1,65 @@
+/** A text the plugin replaced in the source note, e.g. the selection with a link to its note. */
+export interface TextReplacement {
+	original: string;
+	replacement: string;
+	/** Where the replacement was made; undo looks for the nearest occurrence. */
+	offset: number;
+}
+
+/** What one expansion changed, so it can be reverted. */
+export interface ExpansionHistoryEntry {
+	id: number;
+	timestamp: number;
+	label: string;
+	sourcePath: string;
+	replacements: TextReplacement[];
+	createdNotes: string[];
+	/** Notes that existed before the expansion, with their earlier content. */
+	updatedNotes: { path: string; content: string }[];
+	/**
+	 * `hashContent` of each created or updated note right after the
+	 * expansion. Undo leaves notes that no longer match alone.
+	 */
+	noteHashes?: Record<string, string>;
+}
+
+const MAX_ENTRIES = 50;
+
+/** A short FNV-1a hash, enough to tell whether a note changed. */
+export function hashContent(content: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < content.length; i++) {
+		hash ^= content.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16);
+}
+
+export class ExpansionHistory {
+	private entries: ExpansionHistoryEntry[];
+	private onChange: () => Promise<void>;
+
+	constructor(entries: ExpansionHistoryEntry[], onChange: () => Promise<void>) {
+		this.entries = entries;
+		this.onChange = onChange;
+	}
+
+	/** Newest first. */
+	getEntries(): ExpansionHistoryEntry[] {
+		return [...this.entries].reverse();
+	}
+
+	async add(entry: Omit<ExpansionHistoryEntry, 'id' | 'timestamp'>): Promise<void> {
+		const id = this.entries.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+		this.entries.push({ ...entry, id, timestamp: Date.now() });
+		if (this.entries.length > MAX_ENTRIES) {
+			this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+		}
+		await this.onChange();
+	}
+
+	async remove(id: number): Promise<void> {
+		this.entries = this.entries.filter(entry => entry.id !== id);
+		await this.onChange();
+	}
+}
@@ -0,0 +1,58 @@
+import { ExpansionSource } from './ai-service';
+
+/**
+ * The source of an expansion is kept at the end of its note as a single-line
+ * Obsidian comment, which reading view hides. `%` is escaped so the text
+ * cannot close the comment early.
+ */
+const SOURCE_PATTERN = /\n*%% knowledge-expander (\{.*\}) %%\n?/;
+
+export function formatExpansionSource(source: ExpansionSource): string {
+	const json = JSON.stringify({
+		selection: source.selectedText,
+		context: source.context,
+		question: source.userQuestion,
+	}).replace(/%/g, '\\u0025');
+	return `%% knowledge-expander ${json} %%`;
+}
+
+export function parseExpansionSource(note: string): ExpansionSource | null {
+	const match = note.match(SOURCE_PATTERN);
+	if (!match) {
+		return null;
+	}
+	try {
+		const data = JSON.parse(match[1]);
+		return {
+			selectedText: typeof data.selection === 'string' ? data.selection : '',
+			context: typeof data.context === 'string' ? data.context : '',
+			userQuestion: typeof data.question === 'string' ? data.question : '',
+		};
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Blanks out Obsidian `%% %%` comments, the expansion source among them, so
+ * they are neither indexed nor sent as excerpts. Offsets into the text stay
+ * valid.
+ */
+export function blankComments(text: string): string {
+	return text.replace(/%%[\s\S]*?%%/g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+export function stripExpansionSource(note: string): string {
+	return note.replace(SOURCE_PATTERN, '\n');
+}
+
+/** Appends `section` to the note, keeping the source comment last. */
+export function appendBeforeExpansionSource(note: string, section: string): string {
+	const match = note.match(SOURCE_PATTERN);
+	if (!match || match.index === undefined) {
+		return `${note.replace(/\s+$/, '')}\n\n${section}\n`;
+	}
+	const before = note.slice(0, match.index).replace(/\s+$/, '');
+	const after = note.slice(match.index + match[0].length);
+	return `${before}\n\n${section}\n\n${match[0].trim()}\n${after}`;
+}
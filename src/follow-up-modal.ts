@@ -0,0 +1,85 @@
+import { App, Component, MarkdownRenderer, Modal, Setting, TextAreaComponent } from 'obsidian';
+import { t } from './i18n';
+
+/** Asks the question and resolves with the answer; `onChunk` receives it as it streams in. */
+export type FollowUpHandler = (question: string, onChunk: (chunk: string) => void) => Promise<string>;
+
+/** A chat about an expansion note. Each question is answered in turn while the modal stays open. */
+export class FollowUpModal extends Modal {
+	private notePath: string;
+	private noteTitle: string;
+	private onAsk: FollowUpHandler;
+	private component = new Component();
+	private messagesEl: HTMLElement;
+	private input: TextAreaComponent;
+	private busy = false;
+
+	constructor(app: App, notePath: string, noteTitle: string, onAsk: FollowUpHandler) {
+		super(app);
+		this.notePath = notePath;
+		this.noteTitle = noteTitle;
+		this.onAsk = onAsk;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.component.load();
+
+		contentEl.createEl('h2', { text: `${t('followUpTitle')}: ${this.noteTitle}` });
+		this.messagesEl = contentEl.createEl('div', { cls: 'markdown-rendered' });
+
+		new Setting(contentEl)
+			.addTextArea(text => {
+				this.input = text;
+				text.setPlaceholder(t('followUpPlaceholder'));
+				text.inputEl.rows = 3;
+				text.inputEl.cols = 50;
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+						event.preventDefault();
+						this.send();
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(t('send'))
+				.setCta()
+				.onClick(() => this.send()))
+			.addButton(btn => btn
+				.setButtonText(t('close'))
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.component.unload();
+		this.contentEl.empty();
+	}
+
+	private async send(): Promise<void> {
+		const question = this.input.getValue().trim();
+		if (!question || this.busy) {
+			return;
+		}
+
+		this.busy = true;
+		this.input.setValue('');
+		this.messagesEl.createEl('p').createEl('strong', { text: question });
+		const answerEl = this.messagesEl.createEl('div', { text: t('thinking') });
+
+		let streamed = '';
+		try {
+			const answer = await this.onAsk(question, (chunk) => {
+				streamed += chunk;
+				answerEl.setText(streamed);
+			});
+			answerEl.empty();
+			await MarkdownRenderer.render(this.app, answer, answerEl, this.notePath, this.component);
+		} catch (error) {
+			answerEl.setText(`❌ ${error.message}`);
+		} finally {
+			this.busy = false;
+		}
+	}
+}
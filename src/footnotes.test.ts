@@ -0,0 +1,31 @@
+import { insertCitationFootnotes } from './footnotes';
+
+describe('insertCitationFootnotes', () => {
+	it('marks the end of each cited span and numbers sources in order of first use', () => {
+		const content = 'Alpha is old. Beta is new.';
+		const result = insertCitationFootnotes(content, [
+			{ url: 'https://b.example', title: 'B', span: { text: 'Beta is new.' } },
+			{ url: 'https://a.example', title: 'A [docs]', span: { text: 'Alpha is old. ', start: 0 } },
+		]);
+		expect(result).toBe('Alpha is old.[^1] Beta is new.[^2]\n\n[^1]: [A docs](https://a.example)\n[^2]: [B](https://b.example)');
+	});
+
+	it('puts the markers of sources citing the same span together', () => {
+		const result = insertCitationFootnotes('One claim.', [
+			{ url: 'https://2.example', title: 'Two', span: { text: 'One claim.' } },
+			{ url: 'https://1.example', title: 'One', span: { text: 'One claim.' } },
+		]);
+		expect(result).toBe('One claim.[^1][^2]\n\n[^1]: [Two](https://2.example)\n[^2]: [One](https://1.example)');
+	});
+
+	it('replaces an inline link to the source with its footnote', () => {
+		const result = insertCitationFootnotes('See ([site](https://s.example)) here.', [
+			{ url: 'https://s.example', title: 'Site', span: { text: '([site](https://s.example))' } },
+		]);
+		expect(result).toBe('See [^1] here.\n\n[^1]: [Site](https://s.example)');
+	});
+
+	it('leaves the content alone when no span can be found', () => {
+		expect(insertCitationFootnotes('Text', [{ url: 'https://x.example', title: 'X', span: { text: 'missing' } }, { url: 'https://y.example', title: 'Y' }])).toBe('Text');
+	});
+});
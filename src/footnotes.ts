@@ -0,0 +1,97 @@
+import { Citation } from './types';
+
+interface Placement {
+	start: number;
+	end: number;
+	url: string;
+	/** The span is an inline markdown link to the source, which the footnote replaces. */
+	replace: boolean;
+}
+
+function locateSpan(content: string, citation: Citation): Placement | null {
+	const span = citation.span;
+	if (!span || !span.text.trim()) {
+		return null;
+	}
+
+	let start = -1;
+	if (span.start !== undefined && content.slice(span.start, span.start + span.text.length) === span.text) {
+		start = span.start;
+	} else {
+		start = content.indexOf(span.text);
+	}
+	if (start === -1) {
+		return null;
+	}
+
+	const replace = span.text.includes(`](${citation.url}`);
+	let end = start + span.text.length;
+	if (!replace) {
+		while (end > start && /\s/.test(content[end - 1])) {
+			end--;
+		}
+	}
+
+	return { start, end, url: citation.url, replace };
+}
+
+/**
+ * Puts a markdown footnote reference at the end of each cited span and
+ * appends the footnote definitions. Citations without a span that can be
+ * found in `content` are left out.
+ */
+export function insertCitationFootnotes(content: string, citations: Citation[]): string {
+	const placements = citations
+		.map(citation => locateSpan(content, citation))
+		.filter((placement): placement is Placement => placement !== null)
+		.sort((a, b) => a.end - b.end || a.start - b.start);
+
+	if (placements.length === 0) {
+		return content;
+	}
+
+	const numbers = new Map<string, number>();
+	for (const placement of placements) {
+		if (!numbers.has(placement.url)) {
+			numbers.set(placement.url, numbers.size + 1);
+		}
+	}
+
+	let result = content;
+	let cursor = Infinity;
+	for (let i = placements.length - 1; i >= 0;) {
+		const end = placements[i].end;
+		const group: Placement[] = [];
+		while (i >= 0 && placements[i].end === end) {
+			group.unshift(placements[i]);
+			i--;
+		}
+		if (end > cursor) {
+			// Overlaps a span that was already replaced by its footnote.
+			continue;
+		}
+
+		const markers = Array.from(new Set(group.map(p => numbers.get(p.url))))
+			.sort((a, b) => (a ?? 0) - (b ?? 0))
+			.map(n => `[^${n}]`)
+			.join('');
+		const replaced = group.find(p => p.replace);
+		const start = replaced ? replaced.start : end;
+
+		result = result.slice(0, start) + markers + result.slice(end);
+		cursor = start;
+	}
+
+	const titles = new Map<string, string>();
+	for (const citation of citations) {
+		if (!titles.has(citation.url)) {
+			titles.set(citation.url, citation.title);
+		}
+	}
+
+	const definitions = Array.from(numbers.entries())
+		.map(([url, n]) => `[^${n}]: [${(titles.get(url) || url).replace(/[[\]]/g, '')}](${url})`)
+		.join('\n');
+
+	return `${result.replace(/\s+$/, '')}\n\n${definitions}`;
+}
@@ -0,0 +1,428 @@
+import { moment } from 'obsidian';
+
+export type Locale = 'en' | 'ko' | 'ja';
+
+/** `auto` writes in the language of the selected text. */
+export type OutputLanguage = 'auto' | Locale;
+
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+	en: 'English',
+	ko: '한국어',
+	ja: '日本語',
+};
+
+interface UIStrings {
+	selectedText: string;
+	profile: string;
+	profileDesc: string;
+	defaultProfile: string;
+	question: string;
+	questionDesc: string;
+	submit: string;
+	cancel: string;
+	expandPlaceholder: string;
+	webSearchPlaceholder: string;
+	existingNoteTitle: string;
+	existingNoteDesc: string;
+	appendSection: string;
+	appendSectionDesc: string;
+	mergeNote: string;
+	mergeNoteDesc: string;
+	linkNote: string;
+	linkNoteDesc: string;
+	createNote: string;
+	createNoteDesc: string;
+	relatedNotesPlaceholder: string;
+	followUpTitle: string;
+	followUpPlaceholder: string;
+	send: string;
+	close: string;
+	thinking: string;
+	batchTitle: string;
+	batchDesc: string;
+	batchExisting: string;
+	batchTotal: string;
+	batchUnknownCost: string;
+	selectAll: string;
+	selectNone: string;
+	expand: string;
+	candidateLink: string;
+	candidateHighlight: string;
+	candidateBold: string;
+	candidatePattern: string;
+	unlockKeysTitle: string;
+	unlockKeysDesc: string;
+	setPassphraseTitle: string;
+	setPassphraseDesc: string;
+	passphrase: string;
+	confirmPassphrase: string;
+	passphraseMismatch: string;
+	wrongPassphrase: string;
+	unlock: string;
+	sentPreview: string;
+	sentPreviewDesc: string;
+	redactedValues: string;
+	mergePreview: string;
+	previewLoading: string;
+	undone: string;
+	undoSourceMissing: string;
+	undoLinksChanged: string;
+	undoNoteMissing: string;
+	undoNoteEdited: string;
+}
+
+const UI_STRINGS: Record<Locale, UIStrings> = {
+	en: {
+		selectedText: 'Selected text',
+		profile: 'Prompt profile',
+		profileDesc: 'Choose how the text is expanded.',
+		defaultProfile: 'Default',
+		question: 'Follow-up question (optional)',
+		questionDesc: 'Ask about anything specific in this text. Leave empty for a general explanation.',
+		submit: 'OK',
+		cancel: 'Cancel',
+		expandPlaceholder: 'e.g. What is the historical background? / Show me real-world examples',
+		webSearchPlaceholder: 'e.g. What are the latest developments? / Find related news',
+		existingNoteTitle: 'Note already exists',
+		existingNoteDesc: 'This concept was already expanded in',
+		appendSection: 'Append section',
+		appendSectionDesc: 'Generate a new explanation and add it to the note as a dated section.',
+		mergeNote: 'Merge with AI',
+		mergeNoteDesc: 'Have the AI rewrite the note so it also covers this selection.',
+		linkNote: 'Link only',
+		linkNoteDesc: 'Link the selection to the existing note without generating anything.',
+		createNote: 'Create new note',
+		createNoteDesc: 'Generate a separate note anyway.',
+		relatedNotesPlaceholder: 'Filter related notes',
+		followUpTitle: 'Continue this expansion',
+		followUpPlaceholder: 'Ask a follow-up question. Each answer is added to the note as a new section.',
+		send: 'Send',
+		close: 'Close',
+		thinking: 'Thinking…',
+		batchTitle: 'Expand terms in this note',
+		batchDesc: 'Choose the terms to expand. They are expanded one at a time and each is replaced with a link to its note.',
+		batchExisting: 'links to the existing note',
+		batchTotal: 'Estimated total',
+		batchUnknownCost: 'unknown for some terms',
+		selectAll: 'Select all',
+		selectNone: 'Select none',
+		expand: 'Expand',
+		candidateLink: 'Unresolved link',
+		candidateHighlight: 'Highlight',
+		candidateBold: 'Bold',
+		candidatePattern: 'Custom pattern',
+		unlockKeysTitle: 'Unlock API keys',
+		unlockKeysDesc: 'Your API keys are encrypted with a passphrase. Enter it to use them in this session.',
+		setPassphraseTitle: 'Set passphrase',
+		setPassphraseDesc: 'API keys are encrypted with this passphrase before they are saved. It is not stored anywhere, so keep it safe: without it the keys have to be entered again.',
+		passphrase: 'Passphrase',
+		confirmPassphrase: 'Confirm passphrase',
+		passphraseMismatch: 'The passphrases do not match.',
+		wrongPassphrase: 'Wrong passphrase.',
+		unlock: 'Unlock',
+		sentPreview: 'What will be sent',
+		sentPreviewDesc: 'The prompt exactly as the model receives it, with the excerpts of related notes it is shown.',
+		redactedValues: 'Redacted values',
+		mergePreview: 'This text already has an expansion note, {note}. If you merge into it, this is sent instead:',
+		previewLoading: 'Finding related notes...',
+		undone: 'Undone',
+		undoSourceMissing: '{path} no longer exists, so the original text was not restored.',
+		undoLinksChanged: '{count} link(s) in {name} were changed since, so their original text was not restored.',
+		undoNoteMissing: '{path} no longer exists, so it was not restored.',
+		undoNoteEdited: '{path} was edited after the expansion, so it was left as it is.',
+	},
+	ko: {
+		selectedText: '선택된 텍스트',
+		profile: '프롬프트 프로필',
+		profileDesc: '확장 방식을 선택하세요.',
+		defaultProfile: '기본',
+		question: '추가 질문 (선택사항)',
+		questionDesc: '이 텍스트에서 특별히 궁금한 점이 있다면 입력하세요. 비워두면 일반적인 설명을 제공합니다.',
+		submit: '확인',
+		cancel: '취소',
+		expandPlaceholder: '예: 이 개념의 역사적 배경이 궁금해요 / 실제 사례를 알고 싶어요',
+		webSearchPlaceholder: '예: 최신 동향이 궁금해요 / 관련 뉴스를 찾아줘',
+		existingNoteTitle: '이미 노트가 있습니다',
+		existingNoteDesc: '이 개념은 이미 다음 노트에서 확장되었습니다:',
+		appendSection: '섹션 추가',
+		appendSectionDesc: '새 설명을 생성해 날짜별 섹션으로 노트에 추가합니다.',
+		mergeNote: 'AI로 병합',
+		mergeNoteDesc: '이 선택 내용까지 다루도록 AI가 노트를 다시 작성합니다.',
+		linkNote: '링크만 추가',
+		linkNoteDesc: '새로 생성하지 않고 선택한 텍스트를 기존 노트에 연결합니다.',
+		createNote: '새 노트 만들기',
+		createNoteDesc: '그래도 별도의 노트를 생성합니다.',
+		relatedNotesPlaceholder: '관련 노트 검색',
+		followUpTitle: '이어서 질문하기',
+		followUpPlaceholder: '추가 질문을 입력하세요. 각 답변은 노트에 새 섹션으로 추가됩니다.',
+		send: '보내기',
+		close: '닫기',
+		thinking: '생각하는 중…',
+		batchTitle: '이 노트의 용어 확장',
+		batchDesc: '확장할 용어를 선택하세요. 하나씩 차례로 확장되며, 각 용어는 생성된 노트로의 링크로 바뀝니다.',
+		batchExisting: '기존 노트에 링크',
+		batchTotal: '예상 총 비용',
+		batchUnknownCost: '일부 용어는 알 수 없음',
+		selectAll: '모두 선택',
+		selectNone: '모두 해제',
+		expand: '확장',
+		candidateLink: '연결되지 않은 링크',
+		candidateHighlight: '하이라이트',
+		candidateBold: '굵은 글씨',
+		candidatePattern: '사용자 정의 패턴',
+		unlockKeysTitle: 'API 키 잠금 해제',
+		unlockKeysDesc: 'API 키가 암호문구로 암호화되어 있습니다. 이번 세션에서 사용하려면 암호문구를 입력하세요.',
+		setPassphraseTitle: '암호문구 설정',
+		setPassphraseDesc: 'API 키는 저장되기 전에 이 암호문구로 암호화됩니다. 암호문구는 어디에도 저장되지 않으므로 잊어버리면 키를 다시 입력해야 합니다.',
+		passphrase: '암호문구',
+		confirmPassphrase: '암호문구 확인',
+		passphraseMismatch: '암호문구가 일치하지 않습니다.',
+		wrongPassphrase: '암호문구가 올바르지 않습니다.',
+		unlock: '잠금 해제',
+		sentPreview: '보낼 내용',
+		sentPreviewDesc: '모델이 받는 그대로의 프롬프트로, 함께 보여 줄 관련 노트의 발췌도 포함됩니다.',
+		redactedValues: '가린 값',
+		mergePreview: '이 텍스트에는 이미 확장 노트 {note}이(가) 있습니다. 그 노트에 병합하면 대신 다음 내용을 보냅니다:',
+		previewLoading: '관련 노트를 찾는 중...',
+		undone: '되돌림',
+		undoSourceMissing: '{path} 파일이 더 이상 없어 원래 텍스트를 복원하지 않았습니다.',
+		undoLinksChanged: '{name}의 링크 {count}개가 그 뒤에 바뀌어 원래 텍스트를 복원하지 않았습니다.',
+		undoNoteMissing: '{path} 파일이 더 이상 없어 복원하지 않았습니다.',
+		undoNoteEdited: '{path} 파일이 확장 뒤에 편집되어 그대로 두었습니다.',
+	},
+	ja: {
+		selectedText: '選択したテキスト',
+		profile: 'プロンプトプロファイル',
+		profileDesc: '展開の方法を選んでください。',
+		defaultProfile: 'デフォルト',
+		question: '追加の質問（任意）',
+		questionDesc: 'このテキストについて特に知りたいことがあれば入力してください。空欄の場合は一般的な説明を作成します。',
+		submit: 'OK',
+		cancel: 'キャンセル',
+		expandPlaceholder: '例: この概念の歴史的背景を知りたい / 実際の事例を教えて',
+		webSearchPlaceholder: '例: 最新の動向を知りたい / 関連ニュースを探して',
+		existingNoteTitle: 'ノートがすでにあります',
+		existingNoteDesc: 'この概念はすでに次のノートで展開されています:',
+		appendSection: 'セクションを追加',
+		appendSectionDesc: '新しい説明を生成し、日付付きのセクションとしてノートに追加します。',
+		mergeNote: 'AIで統合',
+		mergeNoteDesc: 'この選択内容も含むようにAIがノートを書き直します。',
+		linkNote: 'リンクのみ',
+		linkNoteDesc: '何も生成せず、選択したテキストを既存のノートにリンクします。',
+		createNote: '新しいノートを作成',
+		createNoteDesc: 'それでも別のノートを生成します。',
+		relatedNotesPlaceholder: '関連ノートを絞り込む',
+		followUpTitle: 'この展開を続ける',
+		followUpPlaceholder: '追加の質問を入力してください。回答はノートに新しいセクションとして追加されます。',
+		send: '送信',
+		close: '閉じる',
+		thinking: '考えています…',
+		batchTitle: 'このノートの用語を展開',
+		batchDesc: '展開する用語を選んでください。一つずつ順に展開され、各用語は作成されたノートへのリンクに置き換えられます。',
+		batchExisting: '既存のノートにリンク',
+		batchTotal: '推定合計',
+		batchUnknownCost: '一部の用語は不明',
+		selectAll: 'すべて選択',
+		selectNone: 'すべて解除',
+		expand: '展開',
+		candidateLink: '未解決のリンク',
+		candidateHighlight: 'ハイライト',
+		candidateBold: '太字',
+		candidatePattern: 'カスタムパターン',
+		unlockKeysTitle: 'APIキーのロック解除',
+		unlockKeysDesc: 'APIキーはパスフレーズで暗号化されています。このセッションで使うにはパスフレーズを入力してください。',
+		setPassphraseTitle: 'パスフレーズの設定',
+		setPassphraseDesc: 'APIキーは保存前にこのパスフレーズで暗号化されます。パスフレーズはどこにも保存されないため、忘れた場合はキーを入力し直す必要があります。',
+		passphrase: 'パスフレーズ',
+		confirmPassphrase: 'パスフレーズの確認',
+		passphraseMismatch: 'パスフレーズが一致しません。',
+		wrongPassphrase: 'パスフレーズが正しくありません。',
+		unlock: 'ロック解除',
+		sentPreview: '送信される内容',
+		sentPreviewDesc: 'モデルが受け取るとおりのプロンプトで、一緒に示す関連ノートの抜粋も含みます。',
+		redactedValues: '伏せた値',
+		mergePreview: 'このテキストにはすでに展開ノート {note} があります。そこに統合する場合は、代わりに次の内容を送信します:',
+		previewLoading: '関連ノートを検索中...',
+		undone: '元に戻しました',
+		undoSourceMissing: '{path} はもう存在しないため、元のテキストを復元しませんでした。',
+		undoLinksChanged: '{name} のリンク {count} 件はその後変更されたため、元のテキストを復元しませんでした。',
+		undoNoteMissing: '{path} はもう存在しないため、復元しませんでした。',
+		undoNoteEdited: '{path} は展開後に編集されたため、そのままにしました。',
+	},
+};
+
+/** The locale of Obsidian's interface, falling back to English. */
+export function getUILocale(): Locale {
+	const language = moment.locale().split('-')[0];
+	return language in UI_STRINGS ? language as Locale : 'en';
+}
+
+/** The UI string for `key`, with each `{name}` in it replaced by `values[name]`. */
+export function t(key: keyof UIStrings, values: Record<string, string | number> = {}): string {
+	return UI_STRINGS[getUILocale()][key].replace(/\{(\w+)\}/g, (placeholder, name) => name in values ? `${values[name]}` : placeholder);
+}
+
+export interface PromptStrings {
+	systemPrompt: string;
+	webSearchPrompt: string;
+	titleInstruction: string;
+	/** Replaces `titleInstruction` when the response is a structured JSON object. */
+	structuredInstruction: string;
+	/** Replaces `titleInstruction` when an existing note is rewritten. */
+	mergeInstruction: string;
+	followUpInstruction: string;
+	languageInstruction: string;
+	selectedText: string;
+	context: string;
+	question: string;
+	existingNote: string;
+	relatedNotes: string;
+	/** Asks the model to link to the related notes included in the prompt. */
+	linkInstruction: string;
+	/** Added when sensitive values in the prompt were replaced with placeholders. */
+	placeholderInstruction: string;
+	sources: string;
+	subtopics: string;
+	mapOfContent: string;
+	/** Prompts of the default profiles, by profile id, used while a default profile's own prompt is empty. */
+	profilePrompts: Record<string, string>;
+}
+
+const PROMPT_STRINGS: Record<Locale, PromptStrings> = {
+	en: {
+		systemPrompt: `Explain in detail the background knowledge and additional information needed to understand this text. Keep it under 500 words and use markdown suitable for an md file. Use '##' for section headings and go no deeper than '###'.`,
+		webSearchPrompt: `Search the web for up-to-date information related to the following text and explain it.
+
+Keep it under 500 words and use markdown suitable for an md file. Use '##' for section headings and go no deeper than '###'.
+
+Sources are attached automatically as footnotes, so do not list reference links at the end of the answer.`,
+		titleInstruction: `The first line of your response must be a concise title summarising the content. Start it with "Title: " and keep it under 60 characters.`,
+		structuredInstruction: `Respond with a JSON object: "title" is a concise title of under 60 characters, "body" is the explanation in markdown without the title, "tags" are up to 5 short tags, "aliases" are other names or spellings of the selected concept, and "related" are up to 5 closely related concepts worth their own note.`,
+		mergeInstruction: 'Rewrite the existing note below so that it also covers the selected text and its context. Keep its useful content and combine overlapping points instead of repeating them. Answer with the complete updated note body in markdown, without a title line or frontmatter.',
+		followUpInstruction: 'Answer the follow-up question below about the note you wrote. Answer only the question, in markdown, without repeating what the note already says and without a title line. Your answer is added to the note as a new section.',
+		languageInstruction: 'Write the entire response, including the title, in English.',
+		selectedText: 'Selected text',
+		context: 'Surrounding context',
+		question: 'Follow-up question from the user',
+		existingNote: 'Existing note',
+		relatedNotes: 'Related notes already in the vault',
+		linkInstruction: 'The vault already has the related notes listed below. Do not repeat what they explain; where the explanation touches one of them, link to it with its [[title]] exactly as written.',
+		placeholderInstruction: 'Some values were replaced with placeholders such as [EMAIL_1] or [REDACTED_1]. Wherever the response refers to one of those values, write its placeholder exactly as given.',
+		sources: 'Sources',
+		subtopics: 'Deep dive',
+		mapOfContent: 'Map of content',
+		profilePrompts: {
+			eli5: `Explain this so that someone meeting it for the first time can follow, using plain words and everyday analogies. Use technical terms only where necessary, and explain each one right away. Keep it under 300 words and use no headings deeper than '##'.`,
+			'counter-arguments': `Summarize the main counter-arguments, criticisms and limitations of this content. Give the reasoning behind each, along with any rebuttals to it. Keep it under 500 words and use no headings deeper than '###'.`,
+			timeline: `Lay out the key events and developments related to this content in chronological order. Write each entry as a list item in the form '- **Year**: description', and end with a short summary of where things stand now. Keep it under 500 words.`,
+			glossary: `Write a glossary entry for this term: a one- or two-sentence definition, its key characteristics, related terms and a short example, in that order. Keep it under 200 words and use no headings deeper than '##'.`,
+		},
+	},
+	ko: {
+		systemPrompt: `이 내용을 파악하기 위해 알아야 하는 배경지식과 추가적인 정보를 자세히 설명해주세요. 1000자 이내로 작성하고, md 파일의 마크다운 형태를 유지해주세요. 기본적인 소제목은 '##'를 사용하고, 최대 '###'까지만 사용합니다.`,
+		webSearchPrompt: `다음 텍스트에 대해 웹 검색을 통해 최신 정보와 관련 내용을 찾아 설명해주세요.
+
+1000자 이내로 작성하고, md 파일의 마크다운 형태를 유지해주세요. 기본적인 소제목은 '##'를 사용하고, 최대 '###'까지만 사용합니다.
+
+출처는 각주로 자동 첨부되므로 본문 하단에 참고 자료 링크를 따로 나열하지 마세요.`,
+		titleInstruction: `반드시 응답의 첫 줄에 이 내용을 요약하는 간결한 제목을 작성해주세요. 제목은 "제목: "으로 시작하고, 20자 이내로 작성합니다.`,
+		structuredInstruction: `JSON 객체로 응답해주세요. "title"은 20자 이내의 간결한 제목, "body"는 제목을 제외한 마크다운 본문, "tags"는 5개 이하의 짧은 태그, "aliases"는 선택된 개념의 다른 이름이나 표기, "related"는 별도의 노트로 다룰 만한 밀접한 관련 개념 5개 이하입니다.`,
+		mergeInstruction: '아래의 기존 노트가 선택된 텍스트와 그 맥락의 내용까지 다루도록 다시 작성해주세요. 기존의 유용한 내용은 유지하고, 겹치는 내용은 반복하지 말고 합쳐주세요. 제목 줄과 frontmatter 없이 마크다운 형식의 완성된 노트 본문만 응답합니다.',
+		followUpInstruction: '작성한 노트에 대한 아래의 추가 질문에 답해주세요. 노트에 이미 있는 내용은 반복하지 말고 질문에만 마크다운 형식으로 답하며, 제목 줄은 쓰지 않습니다. 답변은 노트에 새 섹션으로 추가됩니다.',
+		languageInstruction: '제목을 포함한 모든 응답을 한국어로 작성해주세요.',
+		selectedText: '선택된 텍스트',
+		context: '주변 맥락',
+		question: '사용자의 추가 질문',
+		existingNote: '기존 노트',
+		relatedNotes: '볼트에 이미 있는 관련 노트',
+		linkInstruction: '볼트에는 아래에 나열된 관련 노트가 이미 있습니다. 그 노트들이 설명하는 내용은 반복하지 말고, 설명이 해당 노트와 관련될 때는 적힌 그대로의 [[제목]] 형식으로 링크해주세요.',
+		placeholderInstruction: '일부 값은 [EMAIL_1]이나 [REDACTED_1] 같은 자리표시자로 바뀌어 있습니다. 응답에서 그 값을 언급할 때는 자리표시자를 주어진 그대로 적어주세요.',
+		sources: '참고 자료',
+		subtopics: '더 알아보기',
+		mapOfContent: '지식 지도',
+		profilePrompts: {
+			eli5: `이 내용을 처음 접하는 사람도 이해할 수 있도록 쉬운 말과 일상적인 비유로 설명해주세요. 전문 용어는 꼭 필요한 경우에만 쓰고, 쓸 때는 바로 풀어서 설명합니다. 600자 이내로 작성하고, 소제목은 '##'까지만 사용합니다.`,
+			'counter-arguments': `이 내용에 대한 주요 반론, 비판, 한계점을 정리해주세요. 각 반론의 근거와 그에 대한 재반론이 있다면 함께 제시합니다. 1000자 이내로 작성하고, 소제목은 '##'와 '###'까지만 사용합니다.`,
+			timeline: `이 내용과 관련된 주요 사건과 발전 과정을 시간 순서대로 정리해주세요. 각 항목은 '- **연도**: 설명' 형식의 목록으로 작성하고, 마지막에 현재 상황을 짧게 요약합니다. 1000자 이내로 작성합니다.`,
+			glossary: `이 용어에 대한 용어집 항목을 작성해주세요. 한두 문장의 정의, 핵심 특징, 관련 용어, 간단한 예시 순서로 정리합니다. 400자 이내로 작성하고, 소제목은 '##'까지만 사용합니다.`,
+		},
+	},
+	ja: {
+		systemPrompt: `この内容を理解するために必要な背景知識と追加情報を詳しく説明してください。1000文字以内で、mdファイルのマークダウン形式を保ってください。見出しは基本的に'##'を使い、'###'までにしてください。`,
+		webSearchPrompt: `次のテキストについてウェブ検索で最新情報と関連する内容を調べ、説明してください。
+
+1000文字以内で、mdファイルのマークダウン形式を保ってください。見出しは基本的に'##'を使い、'###'までにしてください。
+
+出典は脚注として自動で付くため、本文の末尾に参考リンクを並べないでください。`,
+		titleInstruction: `回答の1行目には必ず内容を要約した簡潔なタイトルを書いてください。タイトルは「タイトル: 」で始め、20文字以内にしてください。`,
+		structuredInstruction: `JSONオブジェクトで回答してください。"title"は20文字以内の簡潔なタイトル、"body"はタイトルを除いたマークダウンの本文、"tags"は5個以下の短いタグ、"aliases"は選択した概念の別名や別表記、"related"は個別のノートにする価値のある密接に関連した概念5個以下です。`,
+		mergeInstruction: '以下の既存のノートを、選択したテキストとその文脈の内容も含むように書き直してください。既存の有用な内容は残し、重なる内容は繰り返さずにまとめてください。タイトル行やフロントマターを付けず、マークダウン形式の完成したノート本文だけを回答してください。',
+		followUpInstruction: '作成したノートについての以下の追加の質問に答えてください。ノートにすでにある内容は繰り返さず、質問にだけマークダウン形式で答え、タイトル行は書かないでください。回答はノートに新しいセクションとして追加されます。',
+		languageInstruction: 'タイトルを含め、回答はすべて日本語で書いてください。',
+		selectedText: '選択したテキスト',
+		context: '周辺の文脈',
+		question: 'ユーザーからの追加の質問',
+		existingNote: '既存のノート',
+		relatedNotes: 'ボルト内にすでにある関連ノート',
+		linkInstruction: 'ボルトには以下の関連ノートがすでにあります。それらが説明している内容は繰り返さず、説明が該当するノートに関わる箇所では、記載どおりの[[タイトル]]形式でリンクしてください。',
+		placeholderInstruction: '一部の値は[EMAIL_1]や[REDACTED_1]のようなプレースホルダーに置き換えられています。回答でその値に触れる箇所では、プレースホルダーを記載どおりに書いてください。',
+		sources: '参考資料',
+		subtopics: 'さらに詳しく',
+		mapOfContent: 'コンテンツマップ',
+		profilePrompts: {
+			eli5: `この内容に初めて触れる人でも理解できるよう、やさしい言葉と身近なたとえで説明してください。専門用語は必要な場合にだけ使い、使うときはすぐに言い換えて説明します。600字以内で書き、見出しは「##」までにします。`,
+			'counter-arguments': `この内容に対する主な反論、批判、限界を整理してください。それぞれの反論の根拠と、それに対する再反論があればあわせて示します。1000字以内で書き、見出しは「##」と「###」までにします。`,
+			timeline: `この内容に関連する主な出来事と発展の過程を時系列で整理してください。各項目は「- **年**: 説明」形式のリストで書き、最後に現在の状況を短くまとめます。1000字以内で書きます。`,
+			glossary: `この用語の用語集の項目を書いてください。1〜2文の定義、主な特徴、関連用語、簡単な例の順にまとめます。400字以内で書き、見出しは「##」までにします。`,
+		},
+	},
+};
+
+/** Used when the output language follows a selection written in a language without its own prompt strings. */
+const SAME_LANGUAGE_INSTRUCTION = 'Write the entire response, including the title, in the same language as the selected text.';
+
+export function getPromptStrings(language: Locale | null): PromptStrings {
+	if (!language) {
+		return { ...PROMPT_STRINGS.en, languageInstruction: SAME_LANGUAGE_INSTRUCTION };
+	}
+	return PROMPT_STRINGS[language];
+}
+
+/**
+ * Guesses the language of `text` from its script. Returns `null` for text in
+ * Latin or another script, whose language cannot be told apart this way.
+ */
+export function detectLanguage(text: string): Locale | null {
+	const hangul = (text.match(/[가-힯ᄀ-ᇿ㄰-㆏]/g) || []).length;
+	const kana = (text.match(/[぀-ヿ]/g) || []).length;
+	const han = (text.match(/[一-鿿]/g) || []).length;
+	const latin = (text.match(/[A-Za-z]/g) || []).length;
+
+	const japanese = kana > 0 ? kana + han : 0;
+	// Latin words are several letters long; compare roughly by word.
+	const other = latin / 4;
+	if (hangul > japanese && hangul > other) {
+		return 'ko';
+	}
+	if (japanese > hangul && japanese > other) {
+		return 'ja';
+	}
+	return null;
+}
+
+export function resolveOutputLanguage(setting: OutputLanguage, text: string): Locale | null {
+	return setting === 'auto' ? detectLanguage(text) : setting;
+}
+
+/** Title markers in any language the model might answer in, so the title line parses whatever the output language. */
+const TITLE_LINE = /^\s*(?:#{1,6}\s*)?(?:\*\*)?\s*(?:title|제목|タイトル|題名|标题|標題|titre|titel|título|titolo|заголовок)\s*(?:\*\*)?\s*[:：]\s*(?:\*\*)?(.*?)(?:\*\*)?\s*$/i;
+
+/** The title in a "Title: ..." line in any language or a top-level heading, or `null` when the line is neither. */
+export function parseTitleLine(line: string): string | null {
+	const match = line.match(TITLE_LINE) || line.match(/^\s*#\s+(.+?)\s*$/);
+	if (!match) {
+		return null;
+	}
+	const title = match[1].replace(/^["'「『]+|["'」』]+$/g, '').trim();
+	return title || null;
+}
@@ -1,24 +1,45 @@
 import { App, Modal, Setting } from 'obsidian';
+import { PromptPreview } from './ai-service';
+import { t } from './i18n';
+import { PromptProfile } from './types';
+
+/** Builds the prompt that submitting would send, or `null` when it cannot be built. */
+export type PromptPreviewBuilder = (question: string, profile: PromptProfile | null) => Promise<PromptPreview | null>;
 
 export class InputPromptModal extends Modal {
     private userInput: string = '';
-    private onSubmit: (input: string) => void;
+    private onSubmit: (input: string, profile: PromptProfile | null) => void;
     private title: string;
     private placeholder: string;
     private selectedText: string;
+    private profiles: PromptProfile[];
+    private profileId: string;
+    private buildPreview: PromptPreviewBuilder | null;
+    private previewDetailsEl: HTMLDetailsElement | null = null;
+    private previewEl: HTMLElement | null = null;
+    private previewCountEl: HTMLElement | null = null;
+    private mergePreviewEl: HTMLElement | null = null;
+    /** Identifies the latest preview, so one built for earlier input is dropped. */
+    private previewRun = 0;
 
     constructor(
         app: App, 
         title: string,
         placeholder: string,
         selectedText: string,
-        onSubmit: (input: string) => void
+        onSubmit: (input: string, profile: PromptProfile | null) => void,
+        profiles: PromptProfile[] = [],
+        profileId: string = '',
+        buildPreview: PromptPreviewBuilder | null = null
     ) {
         super(app);
         this.title = title;
         this.placeholder = placeholder;
         this.selectedText = selectedText;
         this.onSubmit = onSubmit;
+        this.profiles = profiles;
+        this.profileId = profileId;
+        this.buildPreview = buildPreview;
     }
 
     onOpen() {
@@ -27,33 +48,63 @@ export class InputPromptModal extends Modal {
         contentEl.createEl('h2', { text: this.title });
         
         contentEl.createEl('p', { 
-            text: `선택된 텍스트: "${this.selectedText.substring(0, 100)}${this.selectedText.length > 100 ? '...' : ''}"`,
+            text: `${t('selectedText')}: "${this.selectedText.substring(0, 100)}${this.selectedText.length > 100 ? '...' : ''}"`,
             cls: 'selected-text-preview'
         });
 
+        if (this.profiles.length > 0) {
+            new Setting(contentEl)
+                .setName(t('profile'))
+                .setDesc(t('profileDesc'))
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', t('defaultProfile'));
+                    this.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                    dropdown
+                        .setValue(this.profileId)
+                        .onChange(value => {
+                            this.profileId = value;
+                            this.updatePreview();
+                        });
+                });
+        }
+
         new Setting(contentEl)
-            .setName('추가 질문 (선택사항)')
-            .setDesc('이 텍스트에서 특별히 궁금한 점이 있다면 입력하세요. 비워두면 일반적인 설명을 제공합니다.')
+            .setName(t('question'))
+            .setDesc(t('questionDesc'))
             .addTextArea(text => {
                 text
                     .setPlaceholder(this.placeholder)
                     .onChange(value => {
                         this.userInput = value;
+                        this.updatePreview();
                     });
                 text.inputEl.rows = 4;
                 text.inputEl.cols = 50;
             });
 
+        if (this.buildPreview) {
+            const details = contentEl.createEl('details');
+            details.createEl('summary', { text: t('sentPreview') });
+            details.createEl('p', { text: t('sentPreviewDesc'), cls: 'setting-item-description' });
+            this.previewCountEl = details.createEl('p');
+            this.previewEl = this.createPreviewBlock(details);
+            this.mergePreviewEl = details.createEl('div');
+            // Related notes are only looked up once the preview is opened.
+            details.addEventListener('toggle', () => this.updatePreview());
+            this.previewDetailsEl = details;
+        }
+
         new Setting(contentEl)
             .addButton(btn => btn
-                .setButtonText('확인')
+                .setButtonText(t('submit'))
                 .setCta()
                 .onClick(() => {
                     this.close();
-                    this.onSubmit(this.userInput);
+                    const profile = this.profiles.find(p => p.id === this.profileId) || null;
+                    this.onSubmit(this.userInput, profile);
                 }))
             .addButton(btn => btn
-                .setButtonText('취소')
+                .setButtonText(t('cancel'))
                 .onClick(() => {
                     this.close();
                 }));
@@ -63,4 +114,34 @@ export class InputPromptModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
     }
+
+    private createPreviewBlock(parentEl: HTMLElement): HTMLElement {
+        const previewEl = parentEl.createEl('pre');
+        previewEl.style.whiteSpace = 'pre-wrap';
+        previewEl.style.maxHeight = '300px';
+        previewEl.style.overflowY = 'auto';
+        return previewEl;
+    }
+
+    private async updatePreview() {
+        if (!this.buildPreview || !this.previewDetailsEl?.open || !this.previewEl || !this.previewCountEl || !this.mergePreviewEl) {
+            return;
+        }
+        const run = ++this.previewRun;
+        const profile = this.profiles.find(p => p.id === this.profileId) || null;
+        this.previewCountEl.setText(t('previewLoading'));
+        const preview = await this.buildPreview(this.userInput, profile);
+        if (run !== this.previewRun) {
+            return;
+        }
+
+        const redactions = preview ? Math.max(preview.redactions, preview.merge?.redactions ?? 0) : 0;
+        this.previewCountEl.setText(redactions > 0 ? `${t('redactedValues')}: ${redactions}` : '');
+        this.previewEl.setText(preview ? preview.prompt : '');
+        this.mergePreviewEl.empty();
+        if (preview?.merge) {
+            this.mergePreviewEl.createEl('p', { text: t('mergePreview', { note: preview.merge.note }), cls: 'setting-item-description' });
+            this.createPreviewBlock(this.mergePreviewEl).setText(preview.merge.prompt);
+        }
+    }
 }
@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { ExpansionJob } from './job-queue';
+
+export class JobListModal extends FuzzySuggestModal<ExpansionJob> {
+	private jobs: ExpansionJob[];
+	private onCancel: (job: ExpansionJob) => void;
+
+	constructor(app: App, jobs: ExpansionJob[], onCancel: (job: ExpansionJob) => void) {
+		super(app);
+		this.jobs = jobs;
+		this.onCancel = onCancel;
+		this.setPlaceholder('Select a job to cancel');
+	}
+
+	getItems(): ExpansionJob[] {
+		return this.jobs;
+	}
+
+	getItemText(job: ExpansionJob): string {
+		const status = job.status === 'running' ? '⏳ Running' : '🕒 Queued';
+		return `${status} · ${job.label}`;
+	}
+
+	onChooseItem(job: ExpansionJob): void {
+		this.onCancel(job);
+	}
+}
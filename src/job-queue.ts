@@ -0,0 +1,131 @@
+export type JobStatus = 'pending' | 'running';
+
+export interface ExpansionJob {
+	id: number;
+	label: string;
+	status: JobStatus;
+	controller: AbortController;
+}
+
+export class JobCancelledError extends Error {
+	constructor(label: string) {
+		super(`Cancelled: ${label}`);
+		this.name = 'JobCancelledError';
+	}
+}
+
+interface QueuedJob extends ExpansionJob {
+	run: (signal: AbortSignal) => Promise<void>;
+}
+
+export class JobQueue {
+	private jobs: QueuedJob[] = [];
+	private nextId = 1;
+	private maxConcurrent: number;
+	private onChange: () => void;
+
+	constructor(maxConcurrent: number, onChange: () => void) {
+		this.maxConcurrent = Math.max(1, maxConcurrent);
+		this.onChange = onChange;
+	}
+
+	setMaxConcurrent(maxConcurrent: number) {
+		this.maxConcurrent = Math.max(1, maxConcurrent);
+		this.startNext();
+	}
+
+	getJobs(): ExpansionJob[] {
+		return this.jobs.map(({ id, label, status, controller }) => ({ id, label, status, controller }));
+	}
+
+	/**
+	 * Jobs are responsible for reporting their own errors; a job cancelled
+	 * while running sees its signal aborted, a pending one never starts.
+	 * Returns the job's signal, so callers waiting on a job that never starts
+	 * can tell it was cancelled.
+	 */
+	enqueue(label: string, run: (signal: AbortSignal) => Promise<void>): AbortSignal {
+		const controller = new AbortController();
+		this.jobs.push({
+			id: this.nextId++,
+			label,
+			status: 'pending',
+			controller,
+			run,
+		});
+		this.onChange();
+		this.startNext();
+		return controller.signal;
+	}
+
+	cancel(id: number): boolean {
+		const job = this.jobs.find(j => j.id === id);
+		if (!job) {
+			return false;
+		}
+
+		job.controller.abort();
+		if (job.status === 'pending') {
+			this.remove(job);
+		}
+		return true;
+	}
+
+	cancelAll(): void {
+		for (const job of [...this.jobs]) {
+			this.cancel(job.id);
+		}
+	}
+
+	private startNext(): void {
+		const running = this.jobs.filter(j => j.status === 'running').length;
+		const pending = this.jobs.filter(j => j.status === 'pending');
+
+		for (const job of pending.slice(0, Math.max(0, this.maxConcurrent - running))) {
+			job.status = 'running';
+			this.onChange();
+			this.execute(job);
+		}
+	}
+
+	private async execute(job: QueuedJob): Promise<void> {
+		try {
+			await job.run(job.controller.signal);
+		} catch (error) {
+			console.error(`Job "${job.label}" failed:`, error);
+		} finally {
+			this.remove(job);
+			this.startNext();
+		}
+	}
+
+	private remove(job: QueuedJob): void {
+		this.jobs = this.jobs.filter(j => j !== job);
+		this.onChange();
+	}
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined, label: string): void {
+	if (signal?.aborted) {
+		throw new JobCancelledError(label);
+	}
+}
+
+/** Resolves after `ms`, or rejects with `JobCancelledError` as soon as `signal` is aborted. */
+export function wait(ms: number, signal: AbortSignal, label: string = 'wait'): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(new JobCancelledError(label));
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			signal.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new JobCancelledError(label));
+		};
+		signal.addEventListener('abort', onAbort);
+	});
+}
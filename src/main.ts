@@ -1,9 +1,40 @@
 import { Editor, EditorPosition, MarkdownView, Menu, Notice, Plugin, TFile } from 'obsidian';
-import { AIService } from './ai-service';
-import { InputPromptModal } from './input-modal';
+import { AIService, CostEstimate, ExpansionSource, StreamCallback } from './ai-service';
+import { BatchCandidate, findBatchCandidates, linkCandidate, replaceNearest } from './batch-candidates';
+import { BatchExpansionModal, BatchItem } from './batch-expansion-modal';
+import { COMPARISON_VIEW_TYPE, MAX_COMPARED_MODELS, ModelComparisonView } from './comparison-view';
+import { buildContext } from './context-builder';
+import { DeepDiveNode, formatMapOfContent, formatSubtopics, pickConcepts } from './deep-dive';
+import { ExistingNoteModal } from './existing-note-modal';
+import { ExpansionHistory, ExpansionHistoryEntry, hashContent, TextReplacement } from './expansion-history';
+import { ExpansionHistoryModal } from './expansion-history-modal';
+import { appendBeforeExpansionSource, formatExpansionSource, parseExpansionSource, stripExpansionSource } from './expansion-source';
+import { FollowUpModal } from './follow-up-modal';
+import { getPromptStrings, resolveOutputLanguage, t } from './i18n';
+import { InputPromptModal, PromptPreviewBuilder } from './input-modal';
+import { JobCancelledError, JobQueue, throwIfCancelled, wait } from './job-queue';
+import { JobListModal } from './job-list-modal';
 import { KeywordExtractor } from './keyword-extractor';
+import { findExistingExpansion } from './note-finder';
+import { PassphraseModal } from './passphrase-modal';
+import { ExpansionPreviewView, PREVIEW_VIEW_TYPE } from './preview-view';
+import { ChatMessage, getProvider, getProviders, setProviderConfigValue } from './providers';
+import { uniqueCitations } from './providers/citations';
+import { RelatedNote, RelatedNoteRetriever } from './related-notes';
+import { RelatedNotesModal } from './related-notes-modal';
+import { EncryptedSecrets, getEnvReference, SecretStorageMode, SecretStore, Secrets } from './secret-store';
 import { KnowledgeExpanderSettingTab } from './settings';
-import { DEFAULT_SETTINGS, KnowledgeExpanderSettings } from './types';
+import { findTemplateError, FRONT_MATTER_PATTERN, mergeFrontMatter, renderTemplate, TemplateContext } from './template-engine';
+import { truncateToTokens } from './tokens';
+import { AIResponse, Citation, DEFAULT_SETTINGS, KnowledgeExpanderSettings, ModelChoice, PromptProfile } from './types';
+import { BudgetExceededError, UsageLedger, UsageRecord } from './usage-ledger';
+import { UsageDashboardView, USAGE_VIEW_TYPE } from './usage-view';
+import { VaultIndex } from './vault-index';
+
+interface ExistingNoteTarget {
+	file: TFile;
+	action: 'append' | 'merge';
+}
 
 interface SelectionContext {
 	filePath: string;
@@ -14,16 +45,51 @@ interface SelectionContext {
 	sourceNoteName: string;
 }
 
+/** The notes the prompt preview shows, looked up the way the request will look them up. */
+interface PreviewNotes {
+	relatedNotes: RelatedNote[];
+	/** The selection's existing expansion note, with the related notes a merge into it is shown. */
+	merge: { note: string; content: string; relatedNotes: RelatedNote[] } | null;
+}
+
 export default class KnowledgeExpanderPlugin extends Plugin {
 	settings: KnowledgeExpanderSettings;
 	aiService: AIService;
 	keywordExtractor: KeywordExtractor;
+	relatedNoteRetriever: RelatedNoteRetriever;
+	vaultIndex: VaultIndex;
+	jobQueue: JobQueue;
+	usageLedger: UsageLedger;
+	expansionHistory: ExpansionHistory;
+	secretStore: SecretStore;
+	private encryptedSecrets: EncryptedSecrets | null = null;
+	/** Keys an earlier version saved in plain text, left as they are until there is somewhere safe to move them. */
+	private plaintextSecrets: Secrets = {};
+	private hasUnsavedSecrets = false;
+	private statusBarEl: HTMLElement;
+	private profileCommandIds: string[] = [];
 
 	async onload() {
 		await this.loadSettings();
 
-		this.aiService = new AIService(this.settings);
+		if (Object.keys(this.plaintextSecrets).length > 0 && this.getSecretStorageMode() === 'keychain') {
+			await this.savePluginData();
+		}
+
+		this.aiService = new AIService(this.settings, () => this.needsUnlock());
 		this.keywordExtractor = new KeywordExtractor(10);
+		this.vaultIndex = new VaultIndex(this.app, this.aiService, this.settings, `${this.manifest.dir}/vault-index.json`);
+		this.relatedNoteRetriever = new RelatedNoteRetriever(this.app, this.keywordExtractor, this.vaultIndex);
+
+		this.registerView(PREVIEW_VIEW_TYPE, (leaf) => new ExpansionPreviewView(leaf));
+		this.registerView(USAGE_VIEW_TYPE, (leaf) => new UsageDashboardView(leaf, this));
+		this.registerView(COMPARISON_VIEW_TYPE, (leaf) => new ModelComparisonView(leaf));
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('mod-clickable');
+		this.statusBarEl.addEventListener('click', () => this.showJobList());
+		this.jobQueue = new JobQueue(this.settings.maxConcurrentJobs, () => this.updateStatusBar());
+		this.updateStatusBar();
 
 		this.addRibbonIcon('lightbulb', 'Expand Knowledge', () => {
 			this.expandSelectedText();
@@ -37,6 +103,14 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'deep-dive',
+			name: 'Deep dive into selected text',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.showDeepDivePrompt(editor, view);
+			},
+		});
+
 		this.addCommand({
 			id: 'web-search',
 			name: 'Web search for selected text',
@@ -45,6 +119,134 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'compare-models',
+			name: 'Compare models on selected text',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.showComparePrompt(editor, view);
+			},
+		});
+
+		this.registerProfileCommands();
+
+		this.addCommand({
+			id: 'continue-expansion',
+			name: 'Continue this expansion',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || this.app.metadataCache.getFileCache(file)?.frontmatter?.type !== 'knowledge-expansion') {
+					return false;
+				}
+				if (!checking) {
+					this.continueExpansion(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'expand-terms-in-note',
+			name: 'Expand terms in this note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') {
+					return false;
+				}
+				if (!checking) {
+					this.showBatchExpansion(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'find-related-notes',
+			name: 'Find related notes',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.findRelatedNotesFromEditor(editor, view);
+			},
+		});
+
+		this.addCommand({
+			id: 'open-usage-dashboard',
+			name: 'Open usage dashboard',
+			callback: () => {
+				this.openUsageDashboard();
+			},
+		});
+
+		this.addCommand({
+			id: 'undo-last-expansion',
+			name: 'Undo last expansion',
+			checkCallback: (checking: boolean) => {
+				const last = this.expansionHistory.getEntries()[0];
+				if (!last) {
+					return false;
+				}
+				if (!checking) {
+					this.undoExpansion(last);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'expansion-history',
+			name: 'Undo an expansion from history',
+			checkCallback: (checking: boolean) => {
+				if (this.expansionHistory.getEntries().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					new ExpansionHistoryModal(this.app, this.expansionHistory.getEntries(), (entry) => this.undoExpansion(entry)).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'unlock-api-keys',
+			name: 'Unlock API keys',
+			checkCallback: (checking: boolean) => {
+				if (!this.needsUnlock()) {
+					return false;
+				}
+				if (!checking) {
+					this.promptUnlock();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'cancel-job',
+			name: 'Cancel an expansion job',
+			checkCallback: (checking: boolean) => {
+				if (this.jobQueue.getJobs().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					this.showJobList();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'cancel-all-jobs',
+			name: 'Cancel all expansion jobs',
+			checkCallback: (checking: boolean) => {
+				if (this.jobQueue.getJobs().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					this.jobQueue.cancelAll();
+					new Notice('🚫 All expansion jobs cancelled');
+				}
+				return true;
+			},
+		});
+
 		this.registerEvent(
 			this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, view: MarkdownView) => {
 				const selection = editor.getSelection();
@@ -57,6 +259,14 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 								this.showExpandPrompt(editor, view);
 							});
 					});
+					menu.addItem((item) => {
+						item
+							.setTitle('Deep Dive')
+							.setIcon('network')
+							.onClick(() => {
+								this.showDeepDivePrompt(editor, view);
+							});
+					});
 					menu.addItem((item) => {
 						item
 							.setTitle('Web Search')
@@ -69,20 +279,321 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 			})
 		);
 
+		this.registerEvent(this.app.vault.on('create', (file) => this.vaultIndex.handleCreateOrModify(file)));
+		this.registerEvent(this.app.vault.on('modify', (file) => this.vaultIndex.handleCreateOrModify(file)));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.vaultIndex.handleDelete(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.vaultIndex.handleRename(file, oldPath)));
+		// Indexing reads every note, so wait until Obsidian has finished starting up.
+		this.app.workspace.onLayoutReady(() => this.vaultIndex.start());
+		this.app.workspace.onLayoutReady(() => {
+			if (this.needsUnlock()) {
+				this.promptUnlock();
+			}
+		});
+
 		this.addSettingTab(new KnowledgeExpanderSettingTab(this.app, this));
 	}
 
-	onunload() {}
+	onunload() {
+		this.jobQueue?.cancelAll();
+		this.vaultIndex?.stop();
+	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		const { usageLedger, expansionHistory, encryptedSecrets, ...settingsData } = data ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settingsData);
+		this.settings.providers = Object.assign({}, this.settings.providers);
+		this.settings.promptProfiles = this.settings.promptProfiles.map(profile => ({ ...profile }));
+		this.settings.fallbackChain = this.settings.fallbackChain.map(entry => ({ ...entry }));
+		this.settings.comparisonModels = this.settings.comparisonModels.map(entry => ({ ...entry }));
+		this.settings.redactionDetectors = [...this.settings.redactionDetectors];
+		this.migrateLegacyProviderSettings(data);
+		this.migrateLegacyPrompts();
+		this.secretStore = new SecretStore(this.app.vault.getName());
+		this.encryptedSecrets = encryptedSecrets ?? null;
+		// Keys still saved in plain text are moved out of the plugin data on the next save.
+		this.plaintextSecrets = this.collectSecrets();
+		if (this.getSecretStorageMode() === 'keychain') {
+			this.applySecrets(this.secretStore.loadFromKeychain());
+		}
+		if (this.isKeychainMissing() && this.secretStore.hasKeychainData()) {
+			new Notice('⚠️ The system keychain is not available in this version of Obsidian, so the API keys saved to it cannot be read. Set a passphrase in the settings and enter them again.', 15000);
+		}
+		this.usageLedger = new UsageLedger(Array.isArray(usageLedger) ? usageLedger : [], async () => {
+			await this.savePluginData();
+			this.refreshUsageDashboard();
+		});
+		this.expansionHistory = new ExpansionHistory(Array.isArray(expansionHistory) ? expansionHistory : [], () => this.savePluginData());
+	}
+
+	/**
+	 * Older versions saved the Korean default prompts, those of the default
+	 * profiles included, into the settings. Clear them so the built-in prompt
+	 * for the output language is used instead.
+	 */
+	private migrateLegacyPrompts(): void {
+		const korean = getPromptStrings('ko');
+		if (this.settings.systemPrompt === korean.systemPrompt) {
+			this.settings.systemPrompt = '';
+		}
+		if (this.settings.webSearchPrompt === korean.webSearchPrompt) {
+			this.settings.webSearchPrompt = '';
+		}
+		this.settings.promptProfiles.forEach(profile => {
+			if (profile.prompt === korean.profilePrompts[profile.id]) {
+				profile.prompt = '';
+			}
+		});
+	}
+
+	/**
+	 * Versions before the provider registry stored each provider's fields at
+	 * the top level of the settings (`openaiApiKey`, `geminiModel`, ...).
+	 */
+	private migrateLegacyProviderSettings(data: Record<string, unknown> | null): void {
+		if (!data) {
+			return;
+		}
+
+		const legacyFields: Record<string, Record<string, string>> = {
+			openai: { apiKey: 'openaiApiKey', model: 'openaiModel', webSearchModel: 'openaiWebSearchModel' },
+			gemini: { apiKey: 'geminiApiKey', model: 'geminiModel' },
+			claude: { apiKey: 'claudeApiKey', model: 'claudeModel' },
+		};
+
+		for (const [providerId, fields] of Object.entries(legacyFields)) {
+			for (const [key, legacyKey] of Object.entries(fields)) {
+				const value = data[legacyKey];
+				if (typeof value === 'string' && value && this.settings.providers[providerId]?.[key] === undefined) {
+					setProviderConfigValue(this.settings, providerId, key, value);
+				}
+				delete (this.settings as unknown as Record<string, unknown>)[legacyKey];
+			}
+		}
+	}
+
+	/**
+	 * Settings are stored at the top level of the plugin data, next to the
+	 * usage ledger and expansion history. API keys go to the keychain or are
+	 * encrypted with the passphrase. While neither is possible they are never
+	 * written out: new keys are kept for this session only, and keys an
+	 * earlier version saved in plain text are left as they were.
+	 */
+	private async savePluginData() {
+		const secrets = this.collectSecrets();
+		const mode = this.getSecretStorageMode();
+		const secure = mode === 'keychain' || this.secretStore.isUnlocked();
+		if (mode === 'keychain') {
+			this.secretStore.saveToKeychain(secrets);
+			this.encryptedSecrets = null;
+		} else if (this.secretStore.isUnlocked()) {
+			// Saved even with no keys, so the passphrase stays in use.
+			this.encryptedSecrets = await this.secretStore.encrypt(secrets);
+			this.secretStore.clearKeychain();
+		}
+		if (secure) {
+			this.plaintextSecrets = {};
+		}
+
+		const providers: KnowledgeExpanderSettings['providers'] = {};
+		for (const [providerId, config] of Object.entries(this.settings.providers)) {
+			providers[providerId] = { ...config };
+			for (const id of Object.keys(secrets).filter(id => id.startsWith(`${providerId}.`))) {
+				if (this.plaintextSecrets[id] !== secrets[id]) {
+					delete providers[providerId][id.slice(providerId.length + 1)];
+				}
+			}
+		}
+
+		await this.saveData({
+			...this.settings,
+			providers,
+			encryptedSecrets: this.encryptedSecrets,
+			usageLedger: this.usageLedger.getRecords(),
+			expansionHistory: this.expansionHistory.getEntries().reverse(),
+		});
+		this.hasUnsavedSecrets = !secure && Object.keys(secrets).some(id => this.plaintextSecrets[id] !== secrets[id]);
+	}
+
+	/** The values of secret provider fields, except environment variable references, which are saved as they are. */
+	private collectSecrets(): Secrets {
+		const secrets: Secrets = {};
+		for (const provider of getProviders()) {
+			for (const field of provider.settings.filter(field => field.type === 'secret')) {
+				const value = this.settings.providers[provider.id]?.[field.key];
+				if (value && getEnvReference(value) === null) {
+					secrets[`${provider.id}.${field.key}`] = value;
+				}
+			}
+		}
+		return secrets;
+	}
+
+	/** Fills in secret fields from the store, keeping any value already set in this session. */
+	private applySecrets(secrets: Secrets): void {
+		for (const [id, value] of Object.entries(secrets)) {
+			const separator = id.lastIndexOf('.');
+			const providerId = id.slice(0, separator);
+			const key = id.slice(separator + 1);
+			if (!this.settings.providers[providerId]?.[key]) {
+				setProviderConfigValue(this.settings, providerId, key, value);
+			}
+		}
+	}
+
+	/** Passphrase storage is used where the keychain is unavailable, even when the keychain is chosen. */
+	getSecretStorageMode(): SecretStorageMode {
+		return this.settings.secretStorage === 'keychain' && this.secretStore.isKeychainAvailable() ? 'keychain' : 'passphrase';
+	}
+
+	/** Whether API keys entered now can be saved, to the keychain or encrypted with the passphrase. */
+	canSaveSecrets(): boolean {
+		return this.getSecretStorageMode() === 'keychain' || this.secretStore.isUnlocked();
+	}
+
+	/** Whether the keychain is chosen, which is the default, but this device or Obsidian build has none. */
+	isKeychainMissing(): boolean {
+		return this.settings.secretStorage === 'keychain' && !this.secretStore.isKeychainAvailable();
+	}
+
+	/** Whether keys saved in plain text by an earlier version are still in the plugin data. */
+	storesPlaintextSecrets(): boolean {
+		return Object.keys(this.plaintextSecrets).length > 0;
+	}
+
+	/** Whether some API keys are kept for this session only, because there is nowhere safe to save them. */
+	keepsUnsavedSecrets(): boolean {
+		return this.hasUnsavedSecrets;
+	}
+
+	needsUnlock(): boolean {
+		return this.getSecretStorageMode() === 'passphrase' && this.encryptedSecrets !== null && !this.secretStore.isUnlocked();
+	}
+
+	promptUnlock(onUnlock?: () => void): void {
+		const encrypted = this.encryptedSecrets;
+		if (!encrypted) {
+			return;
+		}
+		new PassphraseModal(this.app, false, async (passphrase) => {
+			try {
+				this.applySecrets(await this.secretStore.unlock(passphrase, encrypted));
+			} catch (error) {
+				return t('wrongPassphrase');
+			}
+			// Keys entered while locked were not saved; encrypt them along with the rest.
+			await this.savePluginData();
+			new Notice('🔓 API keys unlocked');
+			onUnlock?.();
+			return null;
+		}).open();
+	}
+
+	/** Encrypts the API keys with a new passphrase from now on. */
+	promptNewPassphrase(onSet?: () => void): void {
+		new PassphraseModal(this.app, true, async (passphrase) => {
+			await this.secretStore.setPassphrase(passphrase);
+			this.settings.secretStorage = 'passphrase';
+			await this.saveSettings();
+			new Notice('🔒 API keys are now encrypted with your passphrase');
+			onSet?.();
+			return null;
+		}).open();
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.savePluginData();
 		if (this.aiService) {
 			this.aiService.updateSettings(this.settings);
 		}
+		if (this.jobQueue) {
+			this.jobQueue.setMaxConcurrent(this.settings.maxConcurrentJobs);
+		}
+		if (this.vaultIndex) {
+			this.vaultIndex.updateSettings(this.settings);
+		}
+	}
+
+	private async openUsageDashboard(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	private refreshUsageDashboard(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE)) {
+			if (leaf.view instanceof UsageDashboardView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
+	private enforceBudget(estimate: CostEstimate): void {
+		if (estimate.estimatedCost === null) {
+			if (this.settings.dailyBudget > 0 || this.settings.monthlyBudget > 0) {
+				new Notice(`⚠️ ${estimate.model} has no price in the model catalog, so the budget cannot be checked.`, 8000);
+			}
+			return;
+		}
+
+		const check = this.usageLedger.checkBudget(this.settings, estimate.estimatedCost);
+		if (!check.exceeded) {
+			return;
+		}
+
+		if (this.settings.budgetMode === 'block') {
+			throw new BudgetExceededError(`${check.message}. Raise the budget in settings to continue.`);
+		}
+		new Notice(`⚠️ ${check.message}`, 8000);
+	}
+
+	private async recordUsage(command: string, response: AIResponse, sourcePath: string, notePath: string): Promise<void> {
+		const record: UsageRecord = {
+			timestamp: Date.now(),
+			provider: response.provider,
+			model: response.model,
+			command,
+			inputTokens: response.inputTokens,
+			outputTokens: response.outputTokens,
+			totalTokens: response.totalTokens,
+			cost: response.estimatedCost,
+			notePath,
+			sourcePath,
+		};
+		await this.usageLedger.record(record);
+	}
+
+	private updateStatusBar(): void {
+		const jobs = this.jobQueue.getJobs();
+		const running = jobs.filter(j => j.status === 'running').length;
+		const pending = jobs.length - running;
+
+		if (jobs.length === 0) {
+			this.statusBarEl.hide();
+			return;
+		}
+
+		this.statusBarEl.show();
+		this.statusBarEl.setText(pending > 0 ? `💡 ${running} running, ${pending} queued` : `💡 ${running} running`);
+		this.statusBarEl.setAttribute('aria-label', 'Click to cancel an expansion job');
+	}
+
+	private showJobList(): void {
+		if (this.jobQueue.getJobs().length === 0) {
+			new Notice('No expansion jobs are running');
+			return;
+		}
+
+		new JobListModal(this.app, this.jobQueue.getJobs(), (job) => {
+			if (this.jobQueue.cancel(job.id)) {
+				new Notice(`🚫 Cancelled: ${job.label}`);
+			}
+		}).open();
 	}
 
 	private async expandSelectedText() {
@@ -96,7 +607,111 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 		this.showExpandPrompt(editor, activeView);
 	}
 
-	private showExpandPrompt(editor: Editor, view: MarkdownView) {
+	/**
+	 * Opens a follow-up chat on an expansion note. The note is read once, so
+	 * answers appended during the chat reach the model as earlier turns
+	 * rather than as part of the note.
+	 */
+	private async continueExpansion(file: TFile) {
+		const note = await this.app.vault.read(file);
+		const originalText = this.app.metadataCache.getFileCache(file)?.frontmatter?.original_text;
+		// Notes from before the source was stored only have the start of the selection.
+		const source: ExpansionSource = parseExpansionSource(note) ?? {
+			selectedText: typeof originalText === 'string' ? originalText : file.basename,
+			context: '',
+			userQuestion: '',
+		};
+		const answer = this.stripFrontMatter(note);
+		const turns: ChatMessage[] = [];
+
+		new FollowUpModal(this.app, file.path, file.basename, (question, onChunk) => new Promise((resolve, reject) => {
+			const label = `Follow-up: ${this.generateFallbackTitle(question)}`;
+			const signal = this.jobQueue.enqueue(label, async (jobSignal) => {
+				try {
+					resolve(await this.runFollowUpJob(file, source, answer, turns, question, onChunk, jobSignal));
+				} catch (error) {
+					reject(error);
+				}
+			});
+			signal.addEventListener('abort', () => reject(new JobCancelledError(label)));
+		})).open();
+	}
+
+	private async runFollowUpJob(
+		file: TFile,
+		source: ExpansionSource,
+		answer: string,
+		turns: ChatMessage[],
+		question: string,
+		onChunk: StreamCallback,
+		signal: AbortSignal
+	): Promise<string> {
+		let response: AIResponse | null = null;
+		try {
+			response = await this.aiService.followUp(source, answer, turns, question, {
+				onChunk: this.settings.streamResponses ? onChunk : undefined,
+				signal,
+				onBeforeRequest: (estimate) => this.enforceBudget(estimate),
+			});
+
+			throwIfCancelled(signal, file.basename);
+			const content = response.content;
+			await this.app.vault.process(file, (data) => appendBeforeExpansionSource(data, `## ${question.replace(/\s+/g, ' ')}\n\n${content}`));
+			turns.push({ role: 'user', content: question }, { role: 'assistant', content });
+
+			new Notice(`✅ Answer added to ${file.basename}\n${this.formatAnsweringModel(response)}\n💰 Estimated cost: ${this.formatEstimatedCost(response.estimatedCost)}`);
+			return content;
+		} finally {
+			if (response) {
+				await this.recordUsage('follow-up', response, file.path, file.path);
+			}
+		}
+	}
+
+	/** Shows notes related to the selection, or to the whole note when nothing is selected. */
+	private async findRelatedNotesFromEditor(editor: Editor, view: MarkdownView) {
+		if (!view.file) {
+			return;
+		}
+
+		const selection = editor.getSelection();
+		const text = selection || editor.getValue().replace(FRONT_MATTER_PATTERN, '').slice(0, 2000);
+		const context = selection ? this.getSurroundingContext(editor) : '';
+		try {
+			const notes = await this.relatedNoteRetriever.findRelated(view.file.path, text, context, 20);
+			if (notes.length === 0) {
+				new Notice('🔍 No related notes found');
+				return;
+			}
+			new RelatedNotesModal(this.app, notes, view.file.path).open();
+		} catch (error) {
+			console.error('Related note retrieval error:', error);
+			new Notice(`❌ Error: ${error.message}`);
+		}
+	}
+
+	/** Adds an "Expand selected text: <profile>" command per prompt profile, replacing the previous set. */
+	registerProfileCommands() {
+		for (const id of this.profileCommandIds) {
+			// @ts-ignore - accessing internal API to remove commands of deleted profiles
+			this.app.commands.removeCommand(`${this.manifest.id}:${id}`);
+		}
+		this.profileCommandIds = [];
+
+		for (const profile of this.settings.promptProfiles) {
+			const id = `expand-with-profile-${profile.id}`;
+			this.addCommand({
+				id,
+				name: `Expand selected text: ${profile.name}`,
+				editorCallback: (editor: Editor, view: MarkdownView) => {
+					this.showExpandPrompt(editor, view, profile.id);
+				},
+			});
+			this.profileCommandIds.push(id);
+		}
+	}
+
+	private showExpandPrompt(editor: Editor, view: MarkdownView, profileId: string = '') {
 		const selection = editor.getSelection();
 		if (!selection) {
 			new Notice('Please select some text to expand');
@@ -106,11 +721,72 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 		new InputPromptModal(
 			this.app,
 			'Expand Knowledge',
-			'예: 이 개념의 역사적 배경이 궁금해요 / 실제 사례를 알고 싶어요',
+			t('expandPlaceholder'),
 			selection,
-			(userQuestion) => {
-				this.expandSelectedTextFromEditor(editor, view, userQuestion);
-			}
+			(userQuestion, profile) => {
+				this.expandSelectedTextFromEditor(editor, view, userQuestion, profile);
+			},
+			this.settings.promptProfiles,
+			profileId,
+			this.promptPreview(editor, view, false, true)
+		).open();
+	}
+
+	private showDeepDivePrompt(editor: Editor, view: MarkdownView) {
+		const selection = editor.getSelection();
+		if (!selection) {
+			new Notice('Please select some text to expand');
+			return;
+		}
+
+		new InputPromptModal(
+			this.app,
+			'Deep Dive',
+			t('expandPlaceholder'),
+			selection,
+			(userQuestion, profile) => {
+				const selectionCtx = this.captureSelectionContext(editor, view, profile);
+				if (selectionCtx) {
+					this.jobQueue.enqueue(
+						`Deep dive: ${this.generateFallbackTitle(selectionCtx.selectedText)}`,
+						(signal) => this.runDeepDiveJob(selectionCtx, userQuestion, profile, signal)
+					);
+				}
+			},
+			this.settings.promptProfiles,
+			'',
+			this.promptPreview(editor, view)
+		).open();
+	}
+
+	private showComparePrompt(editor: Editor, view: MarkdownView) {
+		const selection = editor.getSelection();
+		if (!selection) {
+			new Notice('Please select some text to expand');
+			return;
+		}
+		if (this.settings.comparisonModels.length < 2) {
+			new Notice('⚠️ Choose at least two models to compare in the settings first.');
+			return;
+		}
+
+		new InputPromptModal(
+			this.app,
+			'Compare Models',
+			t('expandPlaceholder'),
+			selection,
+			(userQuestion, profile) => {
+				const selectionCtx = this.captureSelectionContext(editor, view, profile);
+				if (selectionCtx) {
+					this.jobQueue.enqueue(
+						`Compare: ${this.generateFallbackTitle(selectionCtx.selectedText)}`,
+						(signal) => this.runComparisonJob(selectionCtx, userQuestion, profile, signal)
+					);
+				}
+			},
+			this.settings.promptProfiles,
+			'',
+			this.promptPreview(editor, view)
 		).open();
 	}
 
@@ -124,74 +800,650 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 		new InputPromptModal(
 			this.app,
 			'Web Search',
-			'예: 최신 동향이 궁금해요 / 관련 뉴스를 찾아줘',
+			t('webSearchPlaceholder'),
 			selection,
 			(userQuestion) => {
 				this.webSearchFromEditor(editor, view, userQuestion);
-			}
+			},
+			[],
+			'',
+			this.promptPreview(editor, view, true)
 		).open();
 	}
 
-	private async expandSelectedTextFromEditor(editor: Editor, view: MarkdownView, userQuestion: string = '') {
-		const selectionCtx = this.captureSelectionContext(editor, view);
+	/**
+	 * Shows in the prompt modal what the expansion of the current selection
+	 * will send, after redaction. With `offerMerge` it also shows what merging
+	 * into the selection's existing expansion note would send.
+	 */
+	private promptPreview(editor: Editor, view: MarkdownView, webSearch: boolean = false, offerMerge: boolean = false): PromptPreviewBuilder {
+		// The notes depend on the context, which the profile sets, but not on the question.
+		const lookups = new Map<string, Promise<PreviewNotes>>();
+		return async (userQuestion, profile) => {
+			const selectionCtx = this.captureSelectionContext(editor, view, profile);
+			if (!selectionCtx) {
+				return null;
+			}
+			let lookup = lookups.get(profile?.id ?? '');
+			if (!lookup) {
+				lookup = this.findPreviewNotes(selectionCtx, offerMerge);
+				lookups.set(profile?.id ?? '', lookup);
+			}
+			try {
+				const { relatedNotes, merge } = await lookup;
+				const preview = this.aiService.previewPrompt(selectionCtx.selectedText, selectionCtx.surroundingContext, userQuestion, webSearch, { profile, relatedNotes });
+				if (merge) {
+					preview.merge = {
+						note: merge.note,
+						...this.aiService.previewPrompt(selectionCtx.selectedText, selectionCtx.surroundingContext, userQuestion, false, { profile, relatedNotes: merge.relatedNotes }, merge.content),
+					};
+				}
+				return preview;
+			} catch (error) {
+				return { prompt: `⚠️ ${error.message}`, redactions: 0 };
+			}
+		};
+	}
+
+	private async findPreviewNotes(selectionCtx: SelectionContext, offerMerge: boolean): Promise<PreviewNotes> {
+		const relatedNotes = await this.findRelatedNotes(selectionCtx, []);
+		const existing = offerMerge && this.settings.detectExistingNotes ? findExistingExpansion(this.app, selectionCtx.selectedText) : null;
+		if (!existing) {
+			return { relatedNotes, merge: null };
+		}
+		return {
+			relatedNotes,
+			merge: {
+				note: existing.basename,
+				content: this.stripFrontMatter(await this.app.vault.read(existing)),
+				relatedNotes: await this.findRelatedNotes(selectionCtx, [existing.path]),
+			},
+		};
+	}
+
+	private expandSelectedTextFromEditor(editor: Editor, view: MarkdownView, userQuestion: string = '', profile: PromptProfile | null = null) {
+		const selectionCtx = this.captureSelectionContext(editor, view, profile);
 		if (!selectionCtx) {
 			new Notice('Please select some text to expand');
 			return;
 		}
 
-		new Notice('Expanding knowledge... Please wait.');
+		const label = `${profile ? profile.name : 'Expand'}: ${this.generateFallbackTitle(selectionCtx.selectedText)}`;
+		const existing = this.settings.detectExistingNotes ? findExistingExpansion(this.app, selectionCtx.selectedText) : null;
+		if (!existing) {
+			this.jobQueue.enqueue(label, (signal) => this.runExpansionJob(selectionCtx, userQuestion, profile, null, signal));
+			return;
+		}
 
-		try {
-			const response = await this.aiService.expandKnowledge(
-				selectionCtx.selectedText,
-				selectionCtx.surroundingContext,
-				userQuestion
-			);
-			
-			const now = new Date();
-			const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '');
-			const noteTitle = response.title || this.generateFallbackTitle(selectionCtx.selectedText);
-			const sanitizedTitle = this.sanitizeFileName(noteTitle);
-			const fileName = `${dateStr}_${sanitizedTitle}`;
+		new ExistingNoteModal(this.app, existing, (action) => {
+			if (action === 'link') {
+				this.replaceTextAtContext(selectionCtx, `[[${existing.basename}|${selectionCtx.selectedText}]]`)
+					.then((replacement) => this.recordHistory(`Link: ${existing.basename}`, selectionCtx.filePath, replacement ? [replacement] : []))
+					.then(() => new Notice(`🔗 Linked to ${existing.basename}`));
+				return;
+			}
+			const target = action === 'create' ? null : { file: existing, action };
+			this.jobQueue.enqueue(label, (signal) => this.runExpansionJob(selectionCtx, userQuestion, profile, target, signal));
+		}).open();
+	}
 
-			const frontMatter = this.generateFrontMatter(
-				selectionCtx.selectedText,
-				selectionCtx.sourceNoteName,
-				response.content
-			);
+	/** Generates a new note, or with `target` adds the expansion to an existing one. */
+	private async runExpansionJob(selectionCtx: SelectionContext, userQuestion: string, profile: PromptProfile | null, target: ExistingNoteTarget | null, signal: AbortSignal) {
+		const preview = await this.openPreviewView();
+		if (preview) {
+			preview.start(`Expanding: ${this.generateFallbackTitle(selectionCtx.selectedText)}`);
+		} else {
+			new Notice('Expanding knowledge... Please wait.');
+		}
 
-			let noteContent = await this.getTemplateContent();
-			
-			const aiContent = response.content;
-			if (noteContent) {
-				noteContent = noteContent.replace('{{content}}', aiContent);
+		let response: AIResponse | null = null;
+		let notePath = '';
+		try {
+			const options = {
+				onChunk: this.getStreamCallback(preview),
+				signal,
+				onBeforeRequest: (estimate: CostEstimate) => this.enforceBudget(estimate),
+				profile,
+				relatedNotes: await this.findRelatedNotes(selectionCtx, target ? [target.file.path] : []),
+			};
+			response = target?.action === 'merge'
+				? await this.aiService.mergeKnowledge(
+					this.stripFrontMatter(await this.app.vault.read(target.file)),
+					selectionCtx.selectedText,
+					selectionCtx.surroundingContext,
+					userQuestion,
+					options
+				)
+				: await this.aiService.expandKnowledge(
+					selectionCtx.selectedText,
+					selectionCtx.surroundingContext,
+					userQuestion,
+					options
+				);
+
+			let noteFile: TFile;
+			let previousContent: string | null = null;
+			if (target) {
+				throwIfCancelled(signal, target.file.basename);
+				previousContent = await this.app.vault.read(target.file);
+				await this.updateExistingNote(target, response.content);
+				noteFile = target.file;
 			} else {
-				noteContent = `${frontMatter}\n\n${aiContent}`;
+				noteFile = await this.createExpansionNote(selectionCtx, userQuestion, response, profile, signal);
 			}
+			notePath = noteFile.path;
 
-			const savePath = this.getNoteSavePath(fileName);
-
-			const newFile = await this.app.vault.create(savePath, noteContent);
+			const wikiLink = `[[${noteFile.basename}|${selectionCtx.selectedText}]]`;
+			const replacement = await this.replaceTextAtContext(selectionCtx, wikiLink);
+			await this.recordHistory(
+				`${profile ? profile.name : 'Expand'}: ${noteFile.basename}`,
+				selectionCtx.filePath,
+				replacement ? [replacement] : [],
+				previousContent === null ? [noteFile.path] : [],
+				previousContent === null ? [] : [{ path: noteFile.path, content: previousContent }]
+			);
 
-			const wikiLink = `[[${newFile.basename}|${selectionCtx.selectedText}]]`;
-			await this.replaceTextAtContext(selectionCtx, wikiLink);
+			const noteStatus = target ? 'Note updated' : 'Note created';
+			preview?.finish(`✅ ${noteStatus}: ${noteFile.basename}`);
 
-			const costStr = response.estimatedCost.toFixed(6);
+			const costStr = this.formatEstimatedCost(response.estimatedCost);
 			this.showClickableNotice(
 				`✅ Knowledge expanded!\n` +
-				`📝 Note created: ${newFile.basename}\n` +
-				`💰 Estimated cost: $${costStr}\n` +
+				`📝 ${noteStatus}: ${noteFile.basename}\n` +
+				`${this.formatAnsweringModel(response)}\n` +
+				`💰 Estimated cost: ${costStr}\n` +
 				`📊 Tokens: ${response.totalTokens}\n` +
 				`👆 Click to open note`,
-				newFile
+				noteFile
 			);
 
 		} catch (error) {
+			if (signal.aborted || error instanceof JobCancelledError) {
+				preview?.fail('Cancelled');
+				new Notice(target ? '🚫 Cancelled. The note was not changed.' : '🚫 Cancelled. No note was created.');
+				return;
+			}
 			console.error('Knowledge expansion error:', error);
+			preview?.fail(error.message);
+			new Notice(`❌ Error: ${error.message}`);
+		} finally {
+			if (response) {
+				await this.recordUsage(target?.action === 'merge' ? 'merge' : 'expand', response, selectionCtx.filePath, notePath);
+			}
+		}
+	}
+
+	/**
+	 * Sends the same prompt to each comparison model at once and shows the
+	 * answers side by side. The budget is checked once against the cost of
+	 * all the models together. Nothing is saved until an answer or a set of
+	 * sections is picked in the view.
+	 */
+	private async runComparisonJob(selectionCtx: SelectionContext, userQuestion: string, profile: PromptProfile | null, signal: AbortSignal) {
+		const choices = this.settings.comparisonModels.slice(0, MAX_COMPARED_MODELS);
+		const relatedNotes = await this.findRelatedNotes(selectionCtx, []);
+		try {
+			this.enforceComparisonBudget(choices.map(choice => this.aiService.estimateExpansion(
+				selectionCtx.selectedText, selectionCtx.surroundingContext, userQuestion, { profile, relatedNotes, model: choice })));
+		} catch (error) {
+			new Notice(`❌ Error: ${error.message}`);
+			return;
+		}
+
+		const view = await this.openComparisonView();
+		const responses: (AIResponse | null)[] = choices.map(() => null);
+		const title = this.generateFallbackTitle(selectionCtx.selectedText);
+		const run = view.start(
+			`Comparing: ${title}`,
+			choices.map(choice => this.describeModelChoice(choice)),
+			(content, sources) => new Promise((resolve) => {
+				const saveSignal = this.jobQueue.enqueue(`Save comparison: ${title}`, async (jobSignal) => {
+					resolve(await this.saveComparison(selectionCtx, userQuestion, profile, content, sources, jobSignal));
+				});
+				saveSignal.addEventListener('abort', () => resolve(false));
+			})
+		);
+
+		try {
+			await Promise.all(choices.map(async (choice, index) => {
+				const started = Date.now();
+				try {
+					const response = await this.aiService.expandKnowledge(selectionCtx.selectedText, selectionCtx.surroundingContext, userQuestion, {
+						onChunk: this.settings.streamResponses ? (chunk) => view.append(run, index, chunk) : undefined,
+						signal,
+						profile,
+						relatedNotes,
+						model: choice,
+					});
+					responses[index] = response;
+					view.finish(run, index, response, Date.now() - started);
+				} catch (error) {
+					console.error(`Comparison with ${choice.provider}/${choice.model} failed:`, error);
+					view.fail(run, index, signal.aborted ? 'Cancelled' : error.message);
+				}
+			}));
+		} finally {
+			for (const response of responses) {
+				if (response) {
+					await this.recordUsage('compare', response, selectionCtx.filePath, '');
+				}
+			}
+		}
+
+		const answered = responses.filter(response => response !== null).length;
+		new Notice(signal.aborted
+			? '🚫 Comparison cancelled.'
+			: `⚖️ Comparison ready: ${answered} of ${choices.length} models answered`);
+	}
+
+	/** Checks the budget once for a request to each of the compared models, since they are all sent at the same time. */
+	private enforceComparisonBudget(estimates: CostEstimate[]): void {
+		let total = 0;
+		for (const estimate of estimates) {
+			if (estimate.estimatedCost === null) {
+				this.enforceBudget(estimate);
+			} else {
+				total += estimate.estimatedCost;
+			}
+		}
+		this.enforceBudget({
+			provider: estimates[0].provider,
+			model: estimates.map(estimate => estimate.model).join(' + '),
+			estimatedCost: total,
+		});
+	}
+
+	/** Saves the picked answer, or the sections merged from several, as the expansion note. */
+	private async saveComparison(selectionCtx: SelectionContext, userQuestion: string, profile: PromptProfile | null, content: string, sources: AIResponse[], signal: AbortSignal): Promise<boolean> {
+		const unique = (values: string[]) => Array.from(new Set(values)).join(' + ');
+		const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+		const costs = sources.map(source => source.estimatedCost);
+		const response: AIResponse = {
+			...sources[0],
+			content,
+			citations: uniqueCitations(sources.reduce((all: Citation[], source) => all.concat(source.citations), [])),
+			provider: unique(sources.map(source => source.provider)),
+			model: unique(sources.map(source => source.model)),
+			inputTokens: sum(sources.map(source => source.inputTokens)),
+			outputTokens: sum(sources.map(source => source.outputTokens)),
+			totalTokens: sum(sources.map(source => source.totalTokens)),
+			estimatedCost: costs.some(cost => cost === null) ? null : sum(costs as number[]),
+			fallbackReason: undefined,
+			leftLocal: undefined,
+		};
+
+		try {
+			const noteFile = await this.createExpansionNote(selectionCtx, userQuestion, response, profile, signal);
+			const replacement = await this.replaceTextAtContext(selectionCtx, `[[${noteFile.basename}|${selectionCtx.selectedText}]]`);
+			await this.recordHistory(`Compare: ${noteFile.basename}`, selectionCtx.filePath, replacement ? [replacement] : [], [noteFile.path]);
+			this.showClickableNotice(
+				`✅ Comparison saved!\n` +
+				`📝 Note created: ${noteFile.basename}\n` +
+				`🤖 Models: ${response.model}\n` +
+				`👆 Click to open note`,
+				noteFile
+			);
+			return true;
+		} catch (error) {
+			console.error('Saving comparison failed:', error);
 			new Notice(`❌ Error: ${error.message}`);
+			return false;
 		}
 	}
 
+	private describeModelChoice(choice: ModelChoice): string {
+		const name = getProvider(choice.provider)?.name ?? choice.provider;
+		return `${name}: ${choice.model || 'configured model'}`;
+	}
+
+	private async createExpansionNote(selectionCtx: SelectionContext, userQuestion: string, response: AIResponse, profile: PromptProfile | null, signal?: AbortSignal): Promise<TFile> {
+		const now = new Date();
+		const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '');
+		const noteTitle = response.title || this.generateFallbackTitle(selectionCtx.selectedText);
+		const sanitizedTitle = this.sanitizeFileName(noteTitle);
+		const fileName = `${dateStr}_${sanitizedTitle}`;
+
+		const noteContent = await this.buildNoteContent(
+			selectionCtx,
+			userQuestion,
+			response,
+			noteTitle,
+			response.content,
+			profile?.templatePath || this.settings.templatePath
+		);
+
+		const savePath = this.getAvailablePath(this.getNoteSavePath(fileName, profile?.notePath || this.settings.notePath));
+
+		throwIfCancelled(signal, fileName);
+		const noteFile = await this.app.vault.create(savePath, noteContent);
+		await this.runTemplater(noteFile);
+		return noteFile;
+	}
+
+	/** Offers the unresolved links, highlights, bold terms and pattern matches of a note for expansion. */
+	private async showBatchExpansion(file: TFile) {
+		const content = await this.app.vault.read(file);
+		let candidates: BatchCandidate[];
+		try {
+			candidates = findBatchCandidates(this.app, file, content, this.settings.batchPattern);
+		} catch (error) {
+			new Notice(`❌ Invalid custom term pattern: ${error.message}`);
+			return;
+		}
+		if (candidates.length === 0) {
+			new Notice('No unresolved links, highlights or bold terms found in this note');
+			return;
+		}
+
+		const items: BatchItem[] = candidates.map(candidate => {
+			const context = this.getCandidateContext(content, candidate);
+			const existing = this.settings.detectExistingNotes ? findExistingExpansion(this.app, candidate.text) : null;
+			let estimatedCost: number | null = null;
+			try {
+				estimatedCost = existing ? 0 : this.aiService.estimateExpansion(candidate.text, context).estimatedCost;
+			} catch (error) {
+				console.error('Cost estimate error:', error);
+			}
+			return { candidate, existing, estimatedCost };
+		});
+
+		new BatchExpansionModal(this.app, items, (chosen) => {
+			this.jobQueue.enqueue(
+				`Batch: ${chosen.length} terms in ${file.basename}`,
+				(signal) => this.runBatchExpansionJob(file, chosen, signal)
+			);
+		}).open();
+	}
+
+	private getCandidateContext(content: string, candidate: BatchCandidate): string {
+		return buildContext(content, candidate.line, candidate.line, {
+			mode: this.settings.contextMode,
+			lineCount: this.settings.contextLines,
+			tokenBudget: this.settings.contextTokenBudget,
+		});
+	}
+
+	/**
+	 * Expands the chosen terms one after another, waiting `batchDelay` between
+	 * requests. A failed term is skipped; running out of budget or cancelling
+	 * stops the batch, keeping the notes made so far.
+	 */
+	private async runBatchExpansionJob(file: TFile, items: BatchItem[], signal: AbortSignal) {
+		const progress = new Notice('', 0);
+		let created = 0;
+		let linked = 0;
+		let requests = 0;
+		const failed: string[] = [];
+		const replacements: TextReplacement[] = [];
+		const createdNotes: string[] = [];
+
+		try {
+			for (let i = 0; i < items.length; i++) {
+				const { candidate, existing } = items[i];
+				throwIfCancelled(signal, file.basename);
+				progress.setMessage(`📚 Expanding ${i + 1}/${items.length}: ${candidate.text}`);
+
+				if (existing) {
+					const replacement = await this.linkBatchCandidate(file, candidate, existing);
+					if (replacement) {
+						replacements.push(replacement);
+						linked++;
+					}
+					continue;
+				}
+
+				if (requests > 0 && this.settings.batchDelay > 0) {
+					await wait(this.settings.batchDelay * 1000, signal, file.basename);
+				}
+				requests++;
+
+				const content = await this.app.vault.cachedRead(file);
+				const selectionCtx: SelectionContext = {
+					filePath: file.path,
+					from: { line: candidate.line, ch: 0 },
+					to: { line: candidate.line, ch: 0 },
+					selectedText: candidate.text,
+					surroundingContext: this.getCandidateContext(content, candidate),
+					sourceNoteName: file.basename,
+				};
+
+				let response: AIResponse | null = null;
+				let notePath = '';
+				try {
+					response = await this.aiService.expandKnowledge(candidate.text, selectionCtx.surroundingContext, '', {
+						signal,
+						onBeforeRequest: (estimate) => this.enforceBudget(estimate),
+						relatedNotes: await this.findRelatedNotes(selectionCtx),
+					});
+					const noteFile = await this.createExpansionNote(selectionCtx, '', response, null, signal);
+					notePath = noteFile.path;
+					createdNotes.push(noteFile.path);
+					created++;
+					const replacement = await this.linkBatchCandidate(file, candidate, noteFile);
+					if (replacement) {
+						replacements.push(replacement);
+					}
+				} catch (error) {
+					if (signal.aborted || error instanceof JobCancelledError || error instanceof BudgetExceededError) {
+						throw error;
+					}
+					console.error(`Batch expansion error for "${candidate.text}":`, error);
+					failed.push(candidate.text);
+				} finally {
+					if (response) {
+						await this.recordUsage('batch', response, file.path, notePath);
+					}
+				}
+			}
+		} catch (error) {
+			const reason = signal.aborted || error instanceof JobCancelledError ? '🚫 Batch cancelled.' : `❌ Batch stopped: ${error.message}`;
+			new Notice(`${reason} ${created} notes were created.`, 8000);
+			return;
+		} finally {
+			progress.hide();
+			await this.recordHistory(`Batch: ${created} notes from ${file.basename}`, file.path, replacements, createdNotes);
+		}
+
+		new Notice(
+			`✅ Batch expansion complete!\n` +
+			`📝 Notes created: ${created}\n` +
+			(linked > 0 ? `🔗 Linked to existing notes: ${linked}\n` : '') +
+			(failed.length > 0 ? `❌ Failed: ${failed.join(', ')}` : ''),
+			10000
+		);
+	}
+
+	/**
+	 * Expands the selection, then level by level the key concepts of each new
+	 * note, up to `deepDiveDepth` levels and within `deepDiveBudget`. Each note
+	 * links to its sub-concepts and the top note gets a map of the whole tree.
+	 * When the budget runs out or the job is cancelled, the notes made so far
+	 * are still linked.
+	 */
+	private async runDeepDiveJob(selectionCtx: SelectionContext, userQuestion: string, profile: PromptProfile | null, signal: AbortSignal) {
+		const progress = new Notice('', 0);
+		const budget = this.settings.deepDiveBudget;
+		const language = resolveOutputLanguage(this.settings.outputLanguage, `${selectionCtx.selectedText}\n${selectionCtx.surroundingContext}`);
+		const strings = getPromptStrings(language);
+		const seen = new Set([selectionCtx.selectedText.trim().toLowerCase()]);
+		const failed: string[] = [];
+		let spent = 0;
+		let requests = 0;
+		let created = 0;
+		let stopReason = '';
+		const createdNotes: string[] = [];
+		let rootReplacement: TextReplacement | null = null;
+
+		const expand = async (ctx: SelectionContext, question: string): Promise<{ file: TFile; response: AIResponse }> => {
+			if (requests > 0 && this.settings.batchDelay > 0) {
+				await wait(this.settings.batchDelay * 1000, signal, ctx.selectedText);
+			}
+			requests++;
+			progress.setMessage(`🌳 Deep dive (${created} notes, $${spent.toFixed(4)}): ${ctx.selectedText}`);
+
+			let response: AIResponse | null = null;
+			let notePath = '';
+			try {
+				response = await this.aiService.expandKnowledge(ctx.selectedText, ctx.surroundingContext, question, {
+					signal,
+					profile,
+					onBeforeRequest: (estimate) => {
+						if (budget > 0 && spent + (estimate.estimatedCost ?? 0) > budget) {
+							throw new BudgetExceededError(`Deep dive budget of $${budget.toFixed(2)} reached`);
+						}
+						this.enforceBudget(estimate);
+					},
+					relatedNotes: await this.findRelatedNotes(ctx),
+				});
+				spent += response.estimatedCost ?? 0;
+				const file = await this.createExpansionNote(ctx, question, response, profile, signal);
+				notePath = file.path;
+				createdNotes.push(file.path);
+				created++;
+				return { file, response };
+			} finally {
+				if (response) {
+					await this.recordUsage('deep-dive', response, ctx.filePath, notePath);
+				}
+			}
+		};
+
+		let root: DeepDiveNode | null = null;
+		try {
+			const first = await expand(selectionCtx, userQuestion);
+			root = { file: first.file, concept: selectionCtx.selectedText, existing: false, children: [] };
+			rootReplacement = await this.replaceTextAtContext(selectionCtx, `[[${first.file.basename}|${selectionCtx.selectedText}]]`);
+
+			let level: { node: DeepDiveNode; response: AIResponse }[] = [{ node: root, response: first.response }];
+			for (let depth = 1; depth <= this.settings.deepDiveDepth && level.length > 0; depth++) {
+				const next: typeof level = [];
+				for (const { node, response } of level) {
+					const keywords = this.keywordExtractor.extractKeywords(response.content, node.concept);
+					for (const concept of pickConcepts(response.related, keywords, this.settings.deepDiveBreadth, seen)) {
+						throwIfCancelled(signal, concept);
+
+						const existing = this.settings.detectExistingNotes ? findExistingExpansion(this.app, concept) : null;
+						if (existing) {
+							node.children.push({ file: existing, concept, existing: true, children: [] });
+							continue;
+						}
+
+						const ctx: SelectionContext = {
+							filePath: node.file.path,
+							from: { line: 0, ch: 0 },
+							to: { line: 0, ch: 0 },
+							selectedText: concept,
+							surroundingContext: truncateToTokens(response.content, this.settings.contextTokenBudget),
+							sourceNoteName: node.file.basename,
+						};
+						try {
+							const child = await expand(ctx, '');
+							const childNode: DeepDiveNode = { file: child.file, concept, existing: false, children: [] };
+							node.children.push(childNode);
+							next.push({ node: childNode, response: child.response });
+						} catch (error) {
+							if (signal.aborted || error instanceof JobCancelledError || error instanceof BudgetExceededError) {
+								throw error;
+							}
+							console.error(`Deep dive error for "${concept}":`, error);
+							failed.push(concept);
+						}
+					}
+				}
+				level = next;
+			}
+		} catch (error) {
+			if (!root) {
+				progress.hide();
+				if (signal.aborted || error instanceof JobCancelledError) {
+					new Notice('🚫 Cancelled. No note was created.');
+					return;
+				}
+				console.error('Deep dive error:', error);
+				new Notice(`❌ Error: ${error.message}`);
+				return;
+			}
+			stopReason = signal.aborted || error instanceof JobCancelledError ? 'Cancelled' : error.message;
+		}
+
+		progress.hide();
+		const tree = root;
+		// The top note lists its sub-concepts in the map instead.
+		for (const child of tree.children) {
+			await this.linkDeepDiveTree(child, strings.subtopics);
+		}
+		await this.app.vault.process(tree.file, (data) => appendBeforeExpansionSource(data, formatMapOfContent(tree, strings.mapOfContent)));
+		await this.recordHistory(`Deep dive: ${tree.file.basename}`, selectionCtx.filePath, rootReplacement ? [rootReplacement] : [], createdNotes);
+
+		this.showClickableNotice(
+			`${stopReason ? `⚠️ Deep dive stopped: ${stopReason}` : '✅ Deep dive complete!'}\n` +
+			`📝 Notes created: ${created}\n` +
+			`💰 Estimated cost: $${spent.toFixed(4)}\n` +
+			(failed.length > 0 ? `❌ Failed: ${failed.join(', ')}\n` : '') +
+			`👆 Click to open the map`,
+			tree.file
+		);
+	}
+
+	/** Adds the list of sub-concept links to every generated note of the tree that has any. */
+	private async linkDeepDiveTree(node: DeepDiveNode, heading: string): Promise<void> {
+		if (!node.existing && node.children.length > 0) {
+			await this.app.vault.process(node.file, (data) => appendBeforeExpansionSource(data, formatSubtopics(node, heading)));
+		}
+		for (const child of node.children) {
+			await this.linkDeepDiveTree(child, heading);
+		}
+	}
+
+	/** Replaces the candidate in the source note with a link to `noteFile`. */
+	private async linkBatchCandidate(file: TFile, candidate: BatchCandidate, noteFile: TFile): Promise<TextReplacement | null> {
+		const replacement: TextReplacement = {
+			original: candidate.original,
+			replacement: linkCandidate(candidate, noteFile.basename),
+			offset: candidate.offset,
+		};
+		let replaced = false;
+		await this.app.vault.process(file, (content) => {
+			const updated = replaceNearest(content, replacement.original, replacement.replacement, replacement.offset);
+			replaced = updated !== null;
+			return updated ?? content;
+		});
+		if (!replaced) {
+			new Notice(`⚠️ "${candidate.text}" is no longer in ${file.basename}, so it was not linked to ${noteFile.basename}.`);
+		}
+		return replaced ? replacement : null;
+	}
+
+	private async findRelatedNotes(selectionCtx: SelectionContext, exclude: string[] = []): Promise<RelatedNote[]> {
+		try {
+			return await this.relatedNoteRetriever.findRelated(
+				selectionCtx.filePath,
+				selectionCtx.selectedText,
+				selectionCtx.surroundingContext,
+				this.settings.relatedNotesCount,
+				exclude
+			);
+		} catch (error) {
+			// Retrieval only enriches the prompt; the expansion goes ahead without it.
+			console.error('Related note retrieval error:', error);
+			return [];
+		}
+	}
+
+	private formatEstimatedCost(cost: number | null): string {
+		return cost === null ? 'unknown cost' : `$${cost.toFixed(6)}`;
+	}
+
+	private formatAnsweringModel(response: AIResponse): string {
+		if (!response.fallbackReason) {
+			return `🤖 Model: ${response.model}`;
+		}
+		const remote = response.leftLocal
+			? `\n⚠️ The local model failed, so the prompt was sent to ${getProvider(response.provider)?.name ?? response.provider}`
+			: '';
+		return `🔁 Answered by fallback ${response.model} (${response.fallbackReason})${remote}`;
+	}
+
 	private showClickableNotice(message: string, file: TFile): void {
 		const notice = new Notice(message, 10000);
 		notice.noticeEl.style.cursor = 'pointer';
@@ -201,20 +1453,40 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 		});
 	}
 
-	private async webSearchFromEditor(editor: Editor, view: MarkdownView, userQuestion: string = '') {
+	private webSearchFromEditor(editor: Editor, view: MarkdownView, userQuestion: string = '') {
 		const selectionCtx = this.captureSelectionContext(editor, view);
 		if (!selectionCtx) {
 			new Notice('Please select some text to search');
 			return;
 		}
 
-		new Notice('🔍 Searching the web... Please wait.');
+		this.jobQueue.enqueue(
+			`Web search: ${this.generateFallbackTitle(selectionCtx.selectedText)}`,
+			(signal) => this.runWebSearchJob(selectionCtx, userQuestion, signal)
+		);
+	}
+
+	private async runWebSearchJob(selectionCtx: SelectionContext, userQuestion: string, signal: AbortSignal) {
+		const preview = await this.openPreviewView();
+		if (preview) {
+			preview.start(`Searching the web: ${this.generateFallbackTitle(selectionCtx.selectedText)}`);
+		} else {
+			new Notice('🔍 Searching the web... Please wait.');
+		}
 
+		let response: AIResponse | null = null;
+		let notePath = '';
 		try {
-			const response = await this.aiService.webSearch(
+			response = await this.aiService.webSearch(
 				selectionCtx.selectedText,
 				selectionCtx.surroundingContext,
-				userQuestion
+				userQuestion,
+				{
+					onChunk: this.getStreamCallback(preview),
+					signal,
+					onBeforeRequest: (estimate) => this.enforceBudget(estimate),
+					relatedNotes: await this.findRelatedNotes(selectionCtx),
+				}
 			);
 			
 			const now = new Date();
@@ -223,58 +1495,102 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 			const sanitizedTitle = this.sanitizeFileName(noteTitle);
 			const fileName = `${dateStr}_${sanitizedTitle}`;
 
-			const frontMatter = this.generateFrontMatter(
-				selectionCtx.selectedText,
-				selectionCtx.sourceNoteName,
-				response.content
+			const language = resolveOutputLanguage(this.settings.outputLanguage, `${selectionCtx.selectedText}\n${selectionCtx.surroundingContext}`);
+			const noteContent = await this.buildNoteContent(
+				selectionCtx,
+				userQuestion,
+				response,
+				noteTitle,
+				this.appendSources(response.content, response.citations, getPromptStrings(language).sources)
 			);
 
-			let noteContent = await this.getTemplateContent();
-			
-			const aiContent = response.content;
-			if (noteContent) {
-				noteContent = noteContent.replace('{{content}}', aiContent);
-			} else {
-				noteContent = `${frontMatter}\n\n${aiContent}`;
-			}
-
-			const savePath = this.getNoteSavePath(fileName);
+			const savePath = this.getAvailablePath(this.getNoteSavePath(fileName));
 
+			throwIfCancelled(signal, fileName);
 			const newFile = await this.app.vault.create(savePath, noteContent);
+			notePath = newFile.path;
+			await this.runTemplater(newFile);
 
 			const wikiLink = `[[${newFile.basename}|${selectionCtx.selectedText}]]`;
-			await this.replaceTextAtContext(selectionCtx, wikiLink);
+			const replacement = await this.replaceTextAtContext(selectionCtx, wikiLink);
+			await this.recordHistory(`Web search: ${newFile.basename}`, selectionCtx.filePath, replacement ? [replacement] : [], [newFile.path]);
 
-			const costStr = response.estimatedCost.toFixed(6);
+			preview?.finish(`✅ Note created: ${newFile.basename}`);
+
+			const costStr = this.formatEstimatedCost(response.estimatedCost);
 			this.showClickableNotice(
 				`✅ Web search complete!\n` +
 				`📝 Note created: ${newFile.basename}\n` +
-				`💰 Estimated cost: $${costStr}\n` +
+				`${this.formatAnsweringModel(response)}\n` +
+				`💰 Estimated cost: ${costStr}\n` +
 				`📊 Tokens: ${response.totalTokens}\n` +
 				`👆 Click to open note`,
 				newFile
 			);
 
 		} catch (error) {
+			if (signal.aborted || error instanceof JobCancelledError) {
+				preview?.fail('Cancelled');
+				new Notice('🚫 Cancelled. No note was created.');
+				return;
+			}
 			console.error('Web search error:', error);
+			preview?.fail(error.message);
 			new Notice(`❌ Error: ${error.message}`);
+		} finally {
+			if (response) {
+				await this.recordUsage('web-search', response, selectionCtx.filePath, notePath);
+			}
 		}
 	}
 
-	private getSurroundingContext(editor: Editor): string {
-		const cursor = editor.getCursor();
-		const lineCount = editor.lineCount();
-		const startLine = Math.max(0, cursor.line - 5);
-		const endLine = Math.min(lineCount - 1, cursor.line + 5);
-		
-		let context = '';
-		for (let i = startLine; i <= endLine; i++) {
-			context += editor.getLine(i) + '\n';
+	private async openPreviewView(): Promise<ExpansionPreviewView | null> {
+		if (!this.settings.streamResponses) {
+			return null;
+		}
+
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(PREVIEW_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return null;
+			}
+			await rightLeaf.setViewState({ type: PREVIEW_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
 		}
-		return context;
+		workspace.revealLeaf(leaf);
+
+		return leaf.view instanceof ExpansionPreviewView ? leaf.view : null;
 	}
 
-	private captureSelectionContext(editor: Editor, view: MarkdownView): SelectionContext | null {
+	private async openComparisonView(): Promise<ModelComparisonView> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(COMPARISON_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: COMPARISON_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+		return leaf.view as ModelComparisonView;
+	}
+
+	private getStreamCallback(preview: ExpansionPreviewView | null): StreamCallback | undefined {
+		if (!preview) {
+			return undefined;
+		}
+		return (chunk) => preview.append(chunk);
+	}
+
+	private getSurroundingContext(editor: Editor, profile: PromptProfile | null = null): string {
+		return buildContext(editor.getValue(), editor.getCursor('from').line, editor.getCursor('to').line, {
+			mode: profile?.contextMode || this.settings.contextMode,
+			lineCount: this.settings.contextLines,
+			tokenBudget: this.settings.contextTokenBudget,
+		});
+	}
+
+	private captureSelectionContext(editor: Editor, view: MarkdownView, profile: PromptProfile | null = null): SelectionContext | null {
 		const selection = editor.getSelection();
 		if (!selection || !view.file) {
 			return null;
@@ -285,43 +1601,154 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 			from: editor.getCursor('from'),
 			to: editor.getCursor('to'),
 			selectedText: selection,
-			surroundingContext: this.getSurroundingContext(editor),
+			surroundingContext: this.getSurroundingContext(editor, profile),
 			sourceNoteName: view.file.basename,
 		};
 	}
 
-	private async replaceTextAtContext(ctx: SelectionContext, newText: string): Promise<void> {
+	/** Returns what was replaced, for undo, or `null` when the source note is gone. */
+	private async replaceTextAtContext(ctx: SelectionContext, newText: string): Promise<TextReplacement | null> {
 		const file = this.app.vault.getAbstractFileByPath(ctx.filePath);
 		if (!(file instanceof TFile)) {
 			new Notice(`❌ Original file not found: ${ctx.filePath}`);
-			return;
+			return null;
 		}
 
-		const content = await this.app.vault.read(file);
-		const lines = content.split('\n');
+		let replacement: TextReplacement | null = null;
+		await this.app.vault.process(file, (content) => {
+			const lines = content.split('\n');
+
+			let charIndex = 0;
+			for (let i = 0; i < ctx.from.line; i++) {
+				charIndex += lines[i].length + 1;
+			}
+			const fromIndex = charIndex + ctx.from.ch;
+
+			charIndex = 0;
+			for (let i = 0; i < ctx.to.line; i++) {
+				charIndex += lines[i].length + 1;
+			}
+			const toIndex = charIndex + ctx.to.ch;
 
-		let charIndex = 0;
-		for (let i = 0; i < ctx.from.line; i++) {
-			charIndex += lines[i].length + 1;
+			const currentSelectedText = content.substring(fromIndex, toIndex);
+			if (currentSelectedText !== ctx.selectedText) {
+				new Notice(`⚠️ Original text was modified. Inserting at end of file instead.`);
+				replacement = { original: '', replacement: '\n\n' + newText, offset: content.length };
+				return content + '\n\n' + newText;
+			}
+
+			replacement = { original: ctx.selectedText, replacement: newText, offset: fromIndex };
+			return content.substring(0, fromIndex) + newText + content.substring(toIndex);
+		});
+		return replacement;
+	}
+
+	private async recordHistory(
+		label: string,
+		sourcePath: string,
+		replacements: TextReplacement[],
+		createdNotes: string[] = [],
+		updatedNotes: { path: string; content: string }[] = []
+	): Promise<void> {
+		if (replacements.length === 0 && createdNotes.length === 0 && updatedNotes.length === 0) {
+			return;
+		}
+		const noteHashes: Record<string, string> = {};
+		for (const path of [...createdNotes, ...updatedNotes.map(note => note.path)]) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				noteHashes[path] = hashContent(await this.app.vault.read(file));
+			}
 		}
-		const fromIndex = charIndex + ctx.from.ch;
+		await this.expansionHistory.add({ label, sourcePath, replacements, createdNotes, updatedNotes, noteHashes });
+	}
+
+	/**
+	 * Puts the replaced text back where it still reads as the plugin left it,
+	 * moves the notes the expansion created to the trash and restores the
+	 * notes it changed. Notes edited since the expansion are left alone.
+	 */
+	private async undoExpansion(entry: ExpansionHistoryEntry): Promise<void> {
+		const warnings: string[] = [];
 
-		charIndex = 0;
-		for (let i = 0; i < ctx.to.line; i++) {
-			charIndex += lines[i].length + 1;
+		const source = this.app.vault.getAbstractFileByPath(entry.sourcePath);
+		if (entry.replacements.length > 0 && !(source instanceof TFile)) {
+			warnings.push(t('undoSourceMissing', { path: entry.sourcePath }));
+		} else if (source instanceof TFile) {
+			let unmatched = 0;
+			await this.app.vault.process(source, (content) => {
+				for (const replacement of [...entry.replacements].reverse()) {
+					const restored = replaceNearest(content, replacement.replacement, replacement.original, replacement.offset);
+					if (restored === null) {
+						unmatched++;
+					} else {
+						content = restored;
+					}
+				}
+				return content;
+			});
+			if (unmatched > 0) {
+				warnings.push(t('undoLinksChanged', { count: unmatched, name: source.basename }));
+			}
 		}
-		const toIndex = charIndex + ctx.to.ch;
 
-		const currentSelectedText = content.substring(fromIndex, toIndex);
-		if (currentSelectedText !== ctx.selectedText) {
-			new Notice(`⚠️ Original text was modified. Inserting at end of file instead.`);
-			const appendedContent = content + '\n\n' + newText;
-			await this.app.vault.modify(file, appendedContent);
-			return;
+		const isUnchanged = (path: string, content: string) => hashContent(content) === entry.noteHashes?.[path];
+		for (const path of entry.createdNotes) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				continue;
+			}
+			if (isUnchanged(path, await this.app.vault.read(file))) {
+				await this.app.vault.trash(file, true);
+			} else {
+				warnings.push(t('undoNoteEdited', { path }));
+			}
 		}
+		for (const { path, content } of entry.updatedNotes) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				warnings.push(t('undoNoteMissing', { path }));
+				continue;
+			}
+			let edited = false;
+			await this.app.vault.process(file, (data) => {
+				edited = !isUnchanged(path, data);
+				return edited ? data : content;
+			});
+			if (edited) {
+				warnings.push(t('undoNoteEdited', { path }));
+			}
+		}
+
+		await this.expansionHistory.remove(entry.id);
+		new Notice(`↩️ ${t('undone')}: ${entry.label}${warnings.map(warning => `\n⚠️ ${warning}`).join('')}`, warnings.length > 0 ? 10000 : 5000);
+	}
+
+	private async updateExistingNote(target: ExistingNoteTarget, content: string): Promise<void> {
+		await this.app.vault.process(target.file, (data) => {
+			if (target.action === 'merge') {
+				const frontMatter = data.match(FRONT_MATTER_PATTERN);
+				const source = parseExpansionSource(data);
+				return `${frontMatter ? frontMatter[0] : ''}\n${content}\n${source ? `\n${formatExpansionSource(source)}\n` : ''}`;
+			}
 
-		const newContent = content.substring(0, fromIndex) + newText + content.substring(toIndex);
-		await this.app.vault.modify(file, newContent);
+			const dateStr = new Date().toISOString().slice(0, 10);
+			return appendBeforeExpansionSource(data, `## ${dateStr}\n\n${content}`);
+		});
+	}
+
+	private stripFrontMatter(content: string): string {
+		return stripExpansionSource(content.replace(FRONT_MATTER_PATTERN, '')).trim();
+	}
+
+	/** Adds a number to the file name when `path` is taken, so `vault.create` does not fail after the request was paid for. */
+	private getAvailablePath(path: string): string {
+		const base = path.replace(/\.md$/, '');
+		let candidate = path;
+		for (let n = 2; this.app.vault.getAbstractFileByPath(candidate); n++) {
+			candidate = `${base} ${n}.md`;
+		}
+		return candidate;
 	}
 
 	private sanitizeFileName(title: string): string {
@@ -351,34 +1778,156 @@ export default class KnowledgeExpanderPlugin extends Plugin {
 		return title || 'Expanded Knowledge';
 	}
 
-	private generateFrontMatter(selectedText: string, sourceNote: string, aiContent: string): string {
+	private appendSources(content: string, citations: Citation[], heading: string): string {
+		const missing = citations.filter(citation => !content.includes(citation.url));
+		if (missing.length === 0) {
+			return content;
+		}
+
+		const sourceList = missing.map(citation => `- [${citation.title.replace(/[[\]]/g, '')}](${citation.url})`).join('\n');
+		return `${content}\n\n## ${heading}\n${sourceList}`;
+	}
+
+	private generateFrontMatter(selectedText: string, sourceNote: string, response: AIResponse): string {
 		const now = new Date();
 		const dateStr = now.toISOString().slice(0, 10);
 		const timeStr = now.toISOString().slice(11, 19);
 
-		const combinedText = `${selectedText}\n${aiContent}`;
-		const extractedTags = this.keywordExtractor.extractKeywords(combinedText, selectedText);
+		const combinedText = `${selectedText}\n${response.content}`;
+		const extractedTags = response.tags.length > 0
+			? response.tags.map(tag => this.toTag(tag)).filter(Boolean)
+			: this.keywordExtractor.extractKeywords(combinedText, selectedText);
 		
 		const tagsYaml = extractedTags.map(t => `  - ${t}`).join('\n');
+		const sourceUrls = Array.from(new Set(response.citations.map(c => c.url)));
+		const sourcesYaml = sourceUrls.length > 0
+			? `\nsources:\n${sourceUrls.map(url => `  - "${url.replace(/"/g, '\\"')}"`).join('\n')}`
+			: '';
 
 		return `---
 type: knowledge-expansion
 source: "[[${sourceNote}]]"
 original_text: "${selectedText.replace(/"/g, '\\"').substring(0, 200)}"
 created: ${dateStr}T${timeStr}
+provider: ${response.provider}
+model: "${response.model.replace(/"/g, '\\"')}"${sourcesYaml}
 tags:
 ${tagsYaml}
-aliases: []
-related: []
+aliases: ${this.toYamlList(response.aliases)}
+related: ${this.toYamlList(response.related.map(concept => `[[${this.sanitizeFileName(concept)}]]`))}
 ---`;
 	}
 
-	private async getTemplateContent(): Promise<string | null> {
-		if (!this.settings.templatePath) {
+	/**
+	 * Renders the note template, or the frontmatter and content when no
+	 * template is set. The generated frontmatter is merged into the template's
+	 * own unless the template places it with `{{frontmatter}}`.
+	 */
+	private async buildNoteContent(
+		selectionCtx: SelectionContext,
+		userQuestion: string,
+		response: AIResponse,
+		title: string,
+		content: string,
+		templatePath: string = this.settings.templatePath
+	): Promise<string> {
+		const frontMatter = this.generateFrontMatter(selectionCtx.selectedText, selectionCtx.sourceNoteName, response);
+		const source = formatExpansionSource({
+			selectedText: selectionCtx.selectedText,
+			context: selectionCtx.surroundingContext,
+			userQuestion,
+		});
+		const defaultLayout = `${frontMatter}\n\n${content}\n\n${source}\n`;
+		const template = await this.getTemplateContent(templatePath);
+		if (!template) {
+			return defaultLayout;
+		}
+
+		const sourceUrls = Array.from(new Set(response.citations.map(citation => citation.url)));
+		const context: TemplateContext = {
+			content,
+			title,
+			selection: selectionCtx.selectedText,
+			source: `[[${selectionCtx.sourceNoteName}]]`,
+			sourcePath: selectionCtx.filePath,
+			question: userQuestion,
+			tags: response.tags,
+			aliases: response.aliases,
+			related: response.related,
+			provider: response.provider,
+			model: response.model,
+			cost: this.formatEstimatedCost(response.estimatedCost),
+			tokens: response.totalTokens,
+			citations: sourceUrls.map((url, index) => {
+				const citationTitle = response.citations.find(citation => citation.url === url)?.title || url;
+				return {
+					url,
+					title: citationTitle,
+					number: index + 1,
+					text: `[${citationTitle.replace(/[[\]]/g, '')}](${url})`,
+				};
+			}),
+			frontmatter: frontMatter,
+		};
+
+		// The answer is already paid for, so a broken template must not lose it.
+		try {
+			const rendered = appendBeforeExpansionSource(renderTemplate(template, context), source);
+			return /\{\{\s*frontmatter\s*\}\}/.test(template) ? rendered : mergeFrontMatter(rendered, frontMatter);
+		} catch (error) {
+			console.error('Template error:', error);
+			new Notice(`⚠️ The template ${templatePath} could not be used (${error.message}), so the note was written in the default layout.`, 10000);
+			return defaultLayout;
+		}
+	}
+
+	/** Warns when the template at `templatePath` has a block that cannot be rendered, so it can be fixed before it is used. */
+	async checkTemplate(templatePath: string): Promise<void> {
+		const template = await this.getTemplateContent(templatePath);
+		const error = template === null ? null : findTemplateError(template);
+		if (error) {
+			new Notice(`⚠️ ${error}: ${templatePath}. Notes are written in the default layout until it is fixed.`, 10000);
+		}
+	}
+
+	/** Lets Templater process its own `<% %>` commands in a note created from a template. */
+	private async runTemplater(file: TFile): Promise<void> {
+		if (!this.settings.useTemplater) {
+			return;
+		}
+
+		// @ts-ignore - accessing another plugin's internal API
+		const templater = this.app.plugins.plugins['templater-obsidian']?.templater;
+		if (!templater) {
+			return;
+		}
+
+		try {
+			await templater.overwrite_file_commands(file);
+		} catch (error) {
+			console.error('Templater error:', error);
+			new Notice(`⚠️ Templater could not process ${file.basename}: ${error.message}`);
+		}
+	}
+
+	/** Obsidian tags cannot contain spaces or most punctuation. */
+	private toTag(tag: string): string {
+		return tag.replace(/^#+/, '').trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_\-/]/gu, '');
+	}
+
+	private toYamlList(values: string[]): string {
+		if (values.length === 0) {
+			return '[]';
+		}
+		return `\n${values.map(value => `  - "${value.replace(/"/g, '\\"')}"`).join('\n')}`;
+	}
+
+	private async getTemplateContent(templatePath: string = this.settings.templatePath): Promise<string | null> {
+		if (!templatePath) {
 			return null;
 		}
 
-		const templateFile = this.app.vault.getAbstractFileByPath(this.settings.templatePath);
+		const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
 		if (templateFile instanceof TFile) {
 			return await this.app.vault.read(templateFile);
 		}
@@ -386,8 +1935,8 @@ related: []
 		return null;
 	}
 
-	private getNoteSavePath(fileName: string): string {
-		let basePath = this.settings.notePath;
+	private getNoteSavePath(fileName: string, notePath: string = this.settings.notePath): string {
+		let basePath = notePath;
 		
 		if (!basePath) {
 			// @ts-ignore - accessing internal API for default new file location
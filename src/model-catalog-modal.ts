@@ -0,0 +1,158 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { ProviderModel } from './providers';
+
+function parseOptionalNumber(value: string): number | undefined {
+	if (!value.trim()) {
+		return undefined;
+	}
+	const number = parseFloat(value);
+	return isNaN(number) || number < 0 ? undefined : number;
+}
+
+export class ModelEditModal extends Modal {
+	private model: ProviderModel | null;
+	private onSave: (model: ProviderModel) => void;
+
+	constructor(app: App, model: ProviderModel | null, onSave: (model: ProviderModel) => void) {
+		super(app);
+		this.model = model;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: this.model ? 'Edit model' : 'Add model' });
+
+		const values = {
+			id: this.model?.id ?? '',
+			label: this.model?.label ?? '',
+			input: this.model?.pricing ? `${this.model.pricing.input}` : '',
+			output: this.model?.pricing ? `${this.model.pricing.output}` : '',
+			cachedInput: this.model?.pricing?.cachedInput !== undefined ? `${this.model.pricing.cachedInput}` : '',
+			contextWindow: this.model?.contextWindow ? `${this.model.contextWindow}` : '',
+		};
+
+		const fields: { key: keyof typeof values; name: string; desc: string; numeric: boolean }[] = [
+			{ key: 'id', name: 'Model ID', desc: 'The id sent to the API, e.g. gpt-4o or claude-sonnet-4-20250514.', numeric: false },
+			{ key: 'label', name: 'Label', desc: 'Name shown in the model dropdowns. Defaults to the model ID.', numeric: false },
+			{ key: 'input', name: 'Input price', desc: 'USD per 1M input tokens. Leave input or output empty to mark the cost as unknown.', numeric: true },
+			{ key: 'output', name: 'Output price', desc: 'USD per 1M output tokens.', numeric: true },
+			{ key: 'cachedInput', name: 'Cached input price', desc: 'USD per 1M input tokens served from the prompt cache. Defaults to the input price.', numeric: true },
+			{ key: 'contextWindow', name: 'Context window', desc: 'Maximum tokens the model accepts.', numeric: true },
+		];
+
+		for (const field of fields) {
+			new Setting(contentEl)
+				.setName(field.name)
+				.setDesc(field.desc)
+				.addText(text => {
+					text
+						.setValue(values[field.key])
+						.onChange(value => {
+							values[field.key] = value;
+						});
+					if (field.numeric) {
+						text.inputEl.type = 'number';
+						text.inputEl.min = '0';
+						text.inputEl.step = 'any';
+					}
+				});
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					const id = values.id.trim();
+					if (!id) {
+						new Notice('Model ID is required');
+						return;
+					}
+
+					const model: ProviderModel = { id, label: values.label.trim() || id };
+					const input = parseOptionalNumber(values.input);
+					const output = parseOptionalNumber(values.output);
+					if (input !== undefined && output !== undefined) {
+						model.pricing = { input, output, cachedInput: parseOptionalNumber(values.cachedInput) };
+					}
+					const contextWindow = parseOptionalNumber(values.contextWindow);
+					if (contextWindow) {
+						model.contextWindow = Math.round(contextWindow);
+					}
+
+					this.close();
+					this.onSave(model);
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => {
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/** Shows the catalog as JSON for export, or accepts pasted JSON for import when `onImport` is given. */
+export class CatalogJsonModal extends Modal {
+	private json: string;
+	private onImport: ((json: string) => void) | null;
+
+	constructor(app: App, json: string, onImport: ((json: string) => void) | null) {
+		super(app);
+		this.json = json;
+		this.onImport = onImport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: this.onImport ? 'Import model catalog' : 'Export model catalog' });
+		contentEl.createEl('p', {
+			text: this.onImport
+				? 'Paste a catalog exported from this plugin. Providers in the pasted JSON replace their current model list.'
+				: 'Copy this JSON to share the catalog or keep a backup.',
+		});
+
+		const textarea = contentEl.createEl('textarea', { cls: 'knowledge-expander-catalog-json' });
+		textarea.value = this.json;
+		textarea.rows = 16;
+		textarea.style.width = '100%';
+		textarea.style.fontFamily = 'var(--font-monospace)';
+
+		const buttons = new Setting(contentEl);
+		if (this.onImport) {
+			const onImport = this.onImport;
+			buttons.addButton(btn => btn
+				.setButtonText('Import')
+				.setCta()
+				.onClick(() => {
+					try {
+						onImport(textarea.value);
+						this.close();
+					} catch (error) {
+						new Notice(`❌ Invalid catalog: ${error.message}`);
+					}
+				}));
+		} else {
+			buttons.addButton(btn => btn
+				.setButtonText('Copy')
+				.setCta()
+				.onClick(async () => {
+					await navigator.clipboard.writeText(textarea.value);
+					new Notice('Catalog copied to clipboard');
+				}));
+		}
+		buttons.addButton(btn => btn
+			.setButtonText('Close')
+			.onClick(() => {
+				this.close();
+			}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,36 @@
+import { App, TFile } from 'obsidian';
+
+const DATE_PREFIX = /^\d{8}_/;
+
+/** `original_text` is stored cut to this length, so the selection is compared cut the same way. */
+const ORIGINAL_TEXT_LENGTH = 200;
+
+function normalize(text: string): string {
+	return text.normalize('NFC').replace(/[\\/:*?"<>|]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * The most recently modified expansion note on the same concept as
+ * `selectedText`, matched by its title, aliases or `original_text`.
+ */
+export function findExistingExpansion(app: App, selectedText: string): TFile | null {
+	const target = normalize(selectedText);
+	const truncatedTarget = normalize(selectedText.substring(0, ORIGINAL_TEXT_LENGTH));
+	if (!target) {
+		return null;
+	}
+
+	const matches = app.vault.getMarkdownFiles().filter(file => {
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		if (frontmatter?.type !== 'knowledge-expansion') {
+			return false;
+		}
+
+		const aliases: unknown[] = Array.isArray(frontmatter.aliases) ? frontmatter.aliases : [frontmatter.aliases];
+		const names = [file.basename.replace(DATE_PREFIX, ''), ...aliases];
+		return names.some(name => typeof name === 'string' && normalize(name) === target)
+			|| (typeof frontmatter.original_text === 'string' && normalize(frontmatter.original_text) === truncatedTarget);
+	});
+
+	return matches.sort((a, b) => b.stat.mtime - a.stat.mtime)[0] ?? null;
+}
@@ -0,0 +1,76 @@
+import { App, Modal, Setting, TextComponent } from 'obsidian';
+import { t } from './i18n';
+
+/** Resolves with an error to show, or `null` when the passphrase was accepted. */
+export type PassphraseHandler = (passphrase: string) => Promise<string | null>;
+
+/** Asks for the passphrase that encrypts the API keys, twice when `confirm` is set. */
+export class PassphraseModal extends Modal {
+	private confirm: boolean;
+	private onSubmit: PassphraseHandler;
+	private errorEl: HTMLElement;
+
+	constructor(app: App, confirm: boolean, onSubmit: PassphraseHandler) {
+		super(app);
+		this.confirm = confirm;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: t(this.confirm ? 'setPassphraseTitle' : 'unlockKeysTitle') });
+		contentEl.createEl('p', { text: t(this.confirm ? 'setPassphraseDesc' : 'unlockKeysDesc') });
+
+		const passphrase = this.addPasswordField(t('passphrase'));
+		const confirmation = this.confirm ? this.addPasswordField(t('confirmPassphrase')) : null;
+		this.errorEl = contentEl.createEl('p');
+
+		const submit = async () => {
+			const value = passphrase.getValue();
+			if (!value) {
+				return;
+			}
+			if (confirmation && confirmation.getValue() !== value) {
+				this.errorEl.setText(t('passphraseMismatch'));
+				return;
+			}
+			const error = await this.onSubmit(value);
+			if (error) {
+				this.errorEl.setText(error);
+				return;
+			}
+			this.close();
+		};
+
+		[passphrase, confirmation].forEach(field => field?.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				submit();
+			}
+		}));
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(t(this.confirm ? 'submit' : 'unlock'))
+				.setCta()
+				.onClick(submit))
+			.addButton(btn => btn
+				.setButtonText(t('cancel'))
+				.onClick(() => {
+					this.close();
+				}));
+
+		passphrase.inputEl.focus();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private addPasswordField(name: string): TextComponent {
+		const setting = new Setting(this.contentEl).setName(name);
+		const field = new TextComponent(setting.controlEl);
+		field.inputEl.type = 'password';
+		return field;
+	}
+}
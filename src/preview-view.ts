@@ -0,0 +1,97 @@
+import { Component, ItemView, MarkdownRenderer, WorkspaceLeaf } from 'obsidian';
+
+export const PREVIEW_VIEW_TYPE = 'knowledge-expander-preview';
+
+const RENDER_INTERVAL_MS = 150;
+
+export class ExpansionPreviewView extends ItemView {
+	private statusEl: HTMLElement;
+	private bodyEl: HTMLElement;
+	private buffer: string = '';
+	private renderTimer: number | null = null;
+	private renderComponent: Component | null = null;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return PREVIEW_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Expansion Preview';
+	}
+
+	getIcon(): string {
+		return 'lightbulb';
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('knowledge-expander-preview');
+
+		this.statusEl = container.createEl('div', { cls: 'knowledge-expander-preview-status', text: 'Waiting for an expansion...' });
+		this.bodyEl = container.createEl('div', { cls: 'knowledge-expander-preview-body markdown-rendered' });
+	}
+
+	async onClose() {
+		this.cancelScheduledRender();
+		this.clearRendered();
+	}
+
+	start(title: string): void {
+		this.cancelScheduledRender();
+		this.buffer = '';
+		this.statusEl.setText(`⏳ ${title}`);
+		this.clearRendered();
+		this.bodyEl.empty();
+	}
+
+	append(chunk: string): void {
+		this.buffer += chunk;
+		if (this.renderTimer === null) {
+			this.renderTimer = window.setTimeout(() => {
+				this.renderTimer = null;
+				this.render();
+			}, RENDER_INTERVAL_MS);
+		}
+	}
+
+	finish(message: string): void {
+		this.cancelScheduledRender();
+		this.render();
+		this.statusEl.setText(message);
+	}
+
+	fail(message: string): void {
+		this.cancelScheduledRender();
+		this.render();
+		this.statusEl.setText(`❌ ${message}`);
+	}
+
+	private render(): void {
+		this.clearRendered();
+		this.bodyEl.empty();
+
+		const component = new Component();
+		this.addChild(component);
+		this.renderComponent = component;
+		MarkdownRenderer.render(this.app, this.buffer, this.bodyEl, '', component);
+	}
+
+	private clearRendered(): void {
+		if (this.renderComponent) {
+			this.removeChild(this.renderComponent);
+			this.renderComponent = null;
+		}
+	}
+
+	private cancelScheduledRender(): void {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+			this.renderTimer = null;
+		}
+	}
+}
@@ -0,0 +1,164 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { CONTEXT_MODE_NAMES, ContextMode } from './context-builder';
+import { getPromptStrings, getUILocale } from './i18n';
+import { getProviders } from './providers';
+import { BACKGROUND_PROFILE_ID, PromptProfile } from './types';
+
+function slugify(name: string): string {
+	return name.toLowerCase().trim().replace(/[^a-z0-9가-힣]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+}
+
+/** Makes an id for a new profile that no existing profile uses. */
+export function createProfileId(name: string, profiles: PromptProfile[]): string {
+	const base = slugify(name);
+	let id = base;
+	for (let n = 2; profiles.some(p => p.id === id); n++) {
+		id = `${base}-${n}`;
+	}
+	return id;
+}
+
+export class ProfileEditModal extends Modal {
+	private profile: PromptProfile | null;
+	private onSave: (profile: Omit<PromptProfile, 'id'>) => void;
+
+	constructor(app: App, profile: PromptProfile | null, onSave: (profile: Omit<PromptProfile, 'id'>) => void) {
+		super(app);
+		this.profile = profile;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: this.profile ? 'Edit prompt profile' : 'Add prompt profile' });
+
+		const values = {
+			name: this.profile?.name ?? '',
+			prompt: this.profile?.prompt ?? '',
+			provider: this.profile?.provider ?? '',
+			model: this.profile?.model ?? '',
+			notePath: this.profile?.notePath ?? '',
+			templatePath: this.profile?.templatePath ?? '',
+			contextMode: this.profile?.contextMode ?? '' as ContextMode | '',
+		};
+		const strings = getPromptStrings(getUILocale());
+		const usesSystemPrompt = this.profile?.id === BACKGROUND_PROFILE_ID;
+		const builtInPrompt = usesSystemPrompt ? strings.systemPrompt : this.profile ? strings.profilePrompts[this.profile.id] : undefined;
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Shown in the expand prompt and in the command palette.')
+			.addText(text => text
+				.setPlaceholder('ELI5')
+				.setValue(values.name)
+				.onChange(value => {
+					values.name = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Prompt')
+			.setDesc('Replaces the system prompt. The title instruction, selected text and context are added after it.' + (usesSystemPrompt
+				? ' Leave empty to use the system prompt from the settings.'
+				: builtInPrompt ? ' Leave empty to use the built-in prompt in the output language.' : ''))
+			.addTextArea(text => {
+				text
+					.setPlaceholder(builtInPrompt ?? '')
+					.setValue(values.prompt)
+					.onChange(value => {
+						values.prompt = value;
+					});
+				text.inputEl.rows = 8;
+				text.inputEl.cols = 50;
+			});
+
+		new Setting(contentEl)
+			.setName('AI Provider')
+			.setDesc('Leave on default to use the provider selected in the settings.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default');
+				getProviders().forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown
+					.setValue(values.provider)
+					.onChange(value => {
+						values.provider = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Model')
+			.setDesc('Model ID to use instead of the provider\'s configured model. Leave empty for the default.')
+			.addText(text => text
+				.setPlaceholder('gpt-4o-mini')
+				.setValue(values.model)
+				.onChange(value => {
+					values.model = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Note Save Path')
+			.setDesc('Folder for notes created with this profile. Leave empty to use the global note path.')
+			.addText(text => text
+				.setPlaceholder('Knowledge/ELI5')
+				.setValue(values.notePath)
+				.onChange(value => {
+					values.notePath = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Output Template Path')
+			.setDesc('Template for notes created with this profile. Leave empty to use the global template.')
+			.addText(text => text
+				.setPlaceholder('templates/knowledge-template.md')
+				.setValue(values.templatePath)
+				.onChange(value => {
+					values.templatePath = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Context')
+			.setDesc('How much of the note around the selection is sent with it. Leave on default to use the global context mode.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default');
+				(Object.keys(CONTEXT_MODE_NAMES) as ContextMode[]).forEach(mode => dropdown.addOption(mode, CONTEXT_MODE_NAMES[mode]));
+				dropdown
+					.setValue(values.contextMode)
+					.onChange((value: ContextMode | '') => {
+						values.contextMode = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					const name = values.name.trim();
+					if (!name) {
+						new Notice('Profile name is required');
+						return;
+					}
+					if (!values.prompt.trim() && !builtInPrompt) {
+						new Notice('Profile prompt is required');
+						return;
+					}
+
+					this.close();
+					this.onSave({
+						...values,
+						name,
+						model: values.model.trim(),
+						notePath: values.notePath.trim(),
+						templatePath: values.templatePath.trim(),
+					});
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => {
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
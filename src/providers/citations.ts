@@ -0,0 +1,22 @@
+import { Citation } from '../types';
+
+/** Drops citations without a URL and exact repeats of the same source and span. */
+export function uniqueCitations(citations: Citation[]): Citation[] {
+	const seen = new Set<string>();
+	const result: Citation[] = [];
+
+	for (const citation of citations) {
+		if (!citation.url) {
+			continue;
+		}
+
+		const key = [citation.url, citation.span?.start, citation.span?.end, citation.span?.text].join('\u0000');
+		if (seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+		result.push({ ...citation, title: citation.title || citation.url });
+	}
+
+	return result;
+}
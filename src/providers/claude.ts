@@ -0,0 +1,170 @@
+import { Citation } from '../types';
+import { uniqueCitations } from './citations';
+import { contentFilteredError, invalidResponseError, ProviderError } from './errors';
+import { AIProviderDefinition, Completion, CompletionDelta, CompletionRequest, HttpRequest, MAX_OUTPUT_TOKENS, ProviderConfig, ResponseSchema } from './types';
+
+const WEB_SEARCH_TOOL = { type: 'web_search_20250305', name: 'web_search', max_uses: 5 };
+
+/** Structured output is a forced call of a tool whose input schema is the response schema. */
+function structuredOutputTool(responseSchema: ResponseSchema): object {
+	return { name: responseSchema.name, description: responseSchema.description, input_schema: responseSchema.schema };
+}
+
+function toCitation(source: any): Citation {
+	return { url: source.url, title: source.title };
+}
+
+/**
+ * Text before the last search result is commentary on the search, not the
+ * answer. Each cited text block becomes the span of its citations; when the
+ * answer cites nothing, everything the search returned is kept unspanned.
+ */
+function extractAnswer(blocks: any[]): { content: string; citations: Citation[] } {
+	let answerStart = 0;
+	const searched: Citation[] = [];
+	blocks.forEach((block, index) => {
+		if (block.type === 'web_search_tool_result') {
+			answerStart = index + 1;
+			if (Array.isArray(block.content)) {
+				searched.push(...block.content.filter((result: any) => result.type === 'web_search_result').map(toCitation));
+			}
+		}
+	});
+
+	let content = '';
+	const cited: Citation[] = [];
+	for (const block of blocks.slice(answerStart)) {
+		if (block.type !== 'text') {
+			continue;
+		}
+
+		const start = content.length;
+		content += block.text;
+		for (const citation of block.citations || []) {
+			if (citation.type === 'web_search_result_location') {
+				cited.push({ ...toCitation(citation), span: { text: block.text, start, end: content.length } });
+			}
+		}
+	}
+
+	return { content, citations: uniqueCitations(cited.length > 0 ? cited : searched) };
+}
+
+/** Claude reports cache reads and writes apart from `input_tokens`; they all count as input. */
+function inputTokensOf(usage: any): { inputTokens: number; cachedInputTokens: number } {
+	const cachedInputTokens = usage?.cache_read_input_tokens || 0;
+	return {
+		inputTokens: (usage?.input_tokens || 0) + cachedInputTokens + (usage?.cache_creation_input_tokens || 0),
+		cachedInputTokens,
+	};
+}
+
+export const claudeProvider: AIProviderDefinition = {
+	id: 'claude',
+	name: 'Anthropic Claude',
+	capabilities: {
+		webSearch: true,
+		streaming: true,
+		jsonMode: true,
+	},
+	settings: [
+		{
+			key: 'apiKey',
+			name: 'Claude API Key',
+			desc: 'Your Anthropic Claude API key',
+			type: 'secret',
+			placeholder: 'sk-ant-...',
+			defaultValue: '',
+			required: true,
+		},
+		{
+			key: 'model',
+			name: 'Claude Model',
+			desc: 'Model for knowledge expansion. Cost shown as input/output per 1M tokens.',
+			type: 'model',
+			defaultValue: 'claude-3-5-sonnet-20241022',
+		},
+	],
+	models: [
+		{ id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', pricing: { input: 3.00, output: 15.00 }, contextWindow: 200000 },
+		{ id: 'claude-3-opus-20240229', label: 'Claude 3 Opus', pricing: { input: 15.00, output: 75.00 }, contextWindow: 200000 },
+		{ id: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', pricing: { input: 0.25, output: 1.25 }, contextWindow: 200000 },
+	],
+
+	buildRequest(request: CompletionRequest, config: ProviderConfig): HttpRequest {
+		return {
+			url: 'https://api.anthropic.com/v1/messages',
+			headers: {
+				'x-api-key': config.apiKey,
+				'anthropic-version': '2023-06-01',
+				// Streaming goes through fetch, which Anthropic only allows from a browser context with this opt-in.
+				...(request.stream ? { 'anthropic-dangerous-direct-browser-access': 'true' } : {}),
+			},
+			body: {
+				model: request.model,
+				max_tokens: MAX_OUTPUT_TOKENS,
+				messages: request.messages,
+				...(request.webSearch ? { tools: [WEB_SEARCH_TOOL] } : {}),
+				...(request.responseSchema ? {
+					tools: [structuredOutputTool(request.responseSchema)],
+					tool_choice: { type: 'tool', name: request.responseSchema.name },
+				} : {}),
+				...(request.stream ? { stream: true } : {}),
+			},
+		};
+	},
+
+	parseResponse(data: any): Completion {
+		if (data.stop_reason === 'refusal') {
+			throw contentFilteredError();
+		}
+		if (!Array.isArray(data.content) || data.content.length === 0) {
+			throw invalidResponseError('no content');
+		}
+		const toolUse = data.content.find((block: any) => block.type === 'tool_use');
+		const answer = toolUse
+			? { content: JSON.stringify(toolUse.input), citations: [] }
+			: extractAnswer(data.content);
+		return {
+			content: answer.content,
+			citations: answer.citations,
+			...inputTokensOf(data.usage),
+			outputTokens: data.usage?.output_tokens || 0,
+		};
+	},
+
+	parseStreamEvent(data: any): CompletionDelta {
+		switch (data.type) {
+			case 'message_start':
+				return inputTokensOf(data.message?.usage);
+			case 'content_block_start':
+				return {
+					resetText: data.content_block?.type === 'web_search_tool_result',
+					blockStart: data.content_block?.type === 'text',
+				};
+			case 'content_block_delta':
+				if (data.delta?.type === 'citations_delta' && data.delta.citation?.type === 'web_search_result_location') {
+					return { blockCitations: [toCitation(data.delta.citation)] };
+				}
+				if (data.delta?.type === 'input_json_delta') {
+					return { toolInput: data.delta.partial_json };
+				}
+				return data.delta?.type === 'text_delta' ? { text: data.delta.text } : {};
+			case 'content_block_stop':
+				return { blockEnd: true };
+			case 'message_delta':
+				if (data.delta?.stop_reason === 'refusal') {
+					throw contentFilteredError();
+				}
+				return { outputTokens: data.usage?.output_tokens || 0 };
+			case 'error':
+				// Anthropic reports overload mid-stream as an `overloaded_error` event rather than a 529.
+				throw new ProviderError(
+					data.error?.type === 'overloaded_error' ? 'server' : 'bad-request',
+					`Anthropic Claude streaming failed: ${data.error?.message || 'unknown error'}`
+				);
+			default:
+				return {};
+		}
+	},
+};
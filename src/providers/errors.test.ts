@@ -0,0 +1,48 @@
+import { canFallBack, classifyHttpError, parseRetryAfter, ProviderError } from './errors';
+
+describe('classifyHttpError', () => {
+	const kindOf = (status: number, body = '', headers: Record<string, string> = {}) => classifyHttpError('Test', status, body, headers).kind;
+
+	it('classifies by status and error text', () => {
+		expect(kindOf(401)).toBe('auth');
+		expect(kindOf(403)).toBe('auth');
+		expect(kindOf(402)).toBe('quota');
+		expect(kindOf(429, '{"error":{"message":"You exceeded your current quota","type":"insufficient_quota"}}')).toBe('quota');
+		expect(kindOf(429, '{"error":{"message":"Rate limit reached"}}')).toBe('rate-limit');
+		expect(kindOf(400, '{"error":{"message":"This model\'s maximum context length is 8192 tokens"}}')).toBe('context-too-long');
+		expect(kindOf(400, '[{"error":{"message":"Blocked by the safety settings"}}]')).toBe('content-filtered');
+		expect(kindOf(400, 'bad field')).toBe('bad-request');
+		expect(kindOf(408)).toBe('timeout');
+		expect(kindOf(503)).toBe('server');
+	});
+
+	it('puts the provider\'s own message in the error', () => {
+		const error = classifyHttpError('Test', 500, '{"message":"upstream down"}');
+		expect(error.message).toContain('(upstream down)');
+		expect(error.status).toBe(500);
+		expect(error.retryable).toBe(true);
+	});
+
+	it('reads Retry-After for rate limits', () => {
+		expect(classifyHttpError('Test', 429, '', { 'retry-after': '2' }).retryAfter).toBe(2000);
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('reads seconds and HTTP dates', () => {
+		expect(parseRetryAfter('1.5')).toBe(1500);
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter('soon')).toBeUndefined();
+		expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+	});
+});
+
+describe('canFallBack', () => {
+	it('falls back only for provider errors another model may not run into', () => {
+		expect(canFallBack(new ProviderError('rate-limit', ''))).toBe(true);
+		expect(canFallBack(new ProviderError('auth', ''))).toBe(true);
+		expect(canFallBack(new ProviderError('content-filtered', ''))).toBe(false);
+		expect(canFallBack(new ProviderError('context-too-long', ''))).toBe(false);
+		expect(canFallBack(new Error('other'))).toBe(false);
+	});
+});
@@ -0,0 +1,112 @@
+export type ProviderErrorKind =
+	| 'auth'
+	| 'not-configured'
+	| 'rate-limit'
+	| 'quota'
+	| 'content-filtered'
+	| 'context-too-long'
+	| 'network'
+	| 'timeout'
+	| 'server'
+	| 'invalid-response'
+	| 'bad-request';
+
+/** Kinds worth sending again: the same request may succeed a little later. */
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+/** Kinds a different provider or model may not run into. */
+const FALLBACK_KINDS: ProviderErrorKind[] = ['auth', 'not-configured', 'quota', 'rate-limit', 'network', 'timeout', 'server', 'invalid-response'];
+
+/** A failed provider request, classified so the message can say what to do about it. */
+export class ProviderError extends Error {
+	kind: ProviderErrorKind;
+	status?: number;
+	/** Milliseconds the provider asked to wait before retrying. */
+	retryAfter?: number;
+	retryable: boolean;
+
+	constructor(kind: ProviderErrorKind, message: string, status?: number, retryAfter?: number) {
+		super(message);
+		this.name = 'ProviderError';
+		this.kind = kind;
+		this.status = status;
+		this.retryAfter = retryAfter;
+		this.retryable = RETRYABLE_KINDS.includes(kind);
+	}
+}
+
+export function canFallBack(error: unknown): boolean {
+	return error instanceof ProviderError && FALLBACK_KINDS.includes(error.kind);
+}
+
+const CONTEXT_TOO_LONG_PATTERN = /context[_ ]length|context window|too many tokens|too long|maximum (?:context|prompt)|token limit/i;
+const CONTENT_FILTER_PATTERN = /content[_ ]?filter|content[_ ]policy|safety|blocked|prohibited/i;
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|credit balance/i;
+
+/** The error text in a provider's error body, whichever of the common shapes it uses. */
+function errorDetail(body: string): string {
+	try {
+		const data = JSON.parse(body);
+		const error = Array.isArray(data) ? data[0]?.error : data.error;
+		const message = typeof error === 'string' ? error : error?.message ?? data.message;
+		if (typeof message === 'string' && message) {
+			return message;
+		}
+	} catch (error) {
+		// Not JSON; fall through to the raw text.
+	}
+	return body.trim().slice(0, 200);
+}
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Turns an unsuccessful HTTP response into a `ProviderError` with an actionable message. */
+export function classifyHttpError(providerName: string, status: number, body: string, headers: Record<string, string> = {}): ProviderError {
+	const detail = errorDetail(body);
+	const suffix = detail ? ` (${detail})` : '';
+	const retryAfter = parseRetryAfter(headers['retry-after'] ?? headers['Retry-After']);
+
+	if (status === 401 || status === 403) {
+		return new ProviderError('auth', `${providerName} rejected the API key. Check the key in the plugin settings.${suffix}`, status);
+	}
+	if (status === 402 || (status === 429 && QUOTA_PATTERN.test(detail))) {
+		return new ProviderError('quota', `${providerName} quota or credit is used up. Check your plan and billing with the provider.${suffix}`, status);
+	}
+	if (status === 429) {
+		return new ProviderError('rate-limit', `${providerName} is rate limiting requests. Wait a moment, or lower the number of concurrent expansions.${suffix}`, status, retryAfter);
+	}
+	if ((status === 400 || status === 413) && CONTEXT_TOO_LONG_PATTERN.test(detail)) {
+		return new ProviderError('context-too-long', `The prompt is too long for the model. Select less text, use a smaller context mode or include fewer related notes.${suffix}`, status);
+	}
+	if (status === 400 && CONTENT_FILTER_PATTERN.test(detail)) {
+		return contentFilteredError(detail);
+	}
+	if (status === 408) {
+		return new ProviderError('timeout', `${providerName} timed out. Try again, or raise the request timeout in the plugin settings.${suffix}`, status, retryAfter);
+	}
+	if (status >= 500) {
+		return new ProviderError('server', `${providerName} is having problems (status ${status}). Try again later.${suffix}`, status, retryAfter);
+	}
+	return new ProviderError('bad-request', `${providerName} could not handle the request (status ${status}). Check the model name and settings.${suffix}`, status);
+}
+
+export function contentFilteredError(detail: string = ''): ProviderError {
+	const suffix = detail ? ` (${detail})` : '';
+	return new ProviderError('content-filtered', `The model's safety filter blocked the response. Rephrase the question or select different text.${suffix}`);
+}
+
+export function invalidResponseError(detail: string = ''): ProviderError {
+	const suffix = detail ? ` (${detail})` : '';
+	return new ProviderError('invalid-response', `The model returned a response without an answer. Try again, or pick a different model.${suffix}`);
+}
@@ -0,0 +1,206 @@
+import { Citation } from '../types';
+import { uniqueCitations } from './citations';
+import { contentFilteredError, invalidResponseError } from './errors';
+import { AIProviderDefinition, ChatMessage, Completion, CompletionDelta, CompletionRequest, HttpRequest, MAX_OUTPUT_TOKENS, ProviderConfig, ResponseSchema } from './types';
+
+const API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/** The key goes in a header rather than the URL, which ends up in logs. */
+function authHeaders(config: ProviderConfig): Record<string, string> {
+	return { 'x-goog-api-key': config.apiKey };
+}
+
+function toContents(messages: ChatMessage[]): object[] {
+	return messages.map(message => ({
+		role: message.role === 'assistant' ? 'model' : 'user',
+		parts: [{ text: message.content }],
+	}));
+}
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/** A blocked prompt comes back without candidates; a blocked answer with a finish reason instead of text. */
+function checkBlocked(data: any): void {
+	const blockReason = data.promptFeedback?.blockReason;
+	if (blockReason) {
+		throw contentFilteredError(`prompt blocked: ${blockReason}`);
+	}
+	const finishReason = data.candidates?.[0]?.finishReason;
+	if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+		throw contentFilteredError(`answer blocked: ${finishReason}`);
+	}
+}
+
+function extractText(data: any): string {
+	const parts = data.candidates?.[0]?.content?.parts || [];
+	return parts.map((part: any) => part.text || '').join('');
+}
+
+/**
+ * Grounding supports give UTF-8 byte offsets, which do not match string
+ * indices for non-ASCII text, so spans are located by their text instead.
+ * Sources no support points at are still kept, without a span.
+ */
+function extractCitations(data: any): Citation[] {
+	const metadata = data.candidates?.[0]?.groundingMetadata;
+	const chunks: any[] = metadata?.groundingChunks || [];
+	const supports: any[] = metadata?.groundingSupports || [];
+	const citations: Citation[] = [];
+	const supported = new Set<number>();
+
+	for (const support of supports) {
+		const text = support.segment?.text;
+		for (const index of support.groundingChunkIndices || []) {
+			const web = chunks[index]?.web;
+			if (web?.uri && text) {
+				citations.push({ url: web.uri, title: web.title, span: { text } });
+				supported.add(index);
+			}
+		}
+	}
+
+	chunks.forEach((chunk, index) => {
+		if (chunk.web?.uri && !supported.has(index)) {
+			citations.push({ url: chunk.web.uri, title: chunk.web.title });
+		}
+	});
+
+	return uniqueCitations(citations);
+}
+
+/**
+ * Gemini takes an OpenAPI-style schema: upper-case type names and no
+ * `additionalProperties`.
+ */
+function toGeminiSchema(schema: any): any {
+	if (Array.isArray(schema)) {
+		return schema.map(toGeminiSchema);
+	}
+	if (!schema || typeof schema !== 'object') {
+		return schema;
+	}
+
+	const result: Record<string, any> = {};
+	for (const [key, value] of Object.entries(schema)) {
+		if (key === 'additionalProperties') {
+			continue;
+		}
+		if (key === 'type' && typeof value === 'string') {
+			result.type = value.toUpperCase();
+		} else if (key === 'properties') {
+			result.properties = {};
+			for (const [name, property] of Object.entries(value as Record<string, any>)) {
+				result.properties[name] = toGeminiSchema(property);
+			}
+		} else {
+			result[key] = toGeminiSchema(value);
+		}
+	}
+	return result;
+}
+
+function jsonOutputConfig(responseSchema?: ResponseSchema): object {
+	return responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema.schema) } : {};
+}
+
+/** Gemini 1.5 models only know the older retrieval tool; later models use `google_search`. */
+function searchTool(model: string): object {
+	return model.startsWith('gemini-1.5') ? { google_search_retrieval: {} } : { google_search: {} };
+}
+
+export const geminiProvider: AIProviderDefinition = {
+	id: 'gemini',
+	name: 'Google Gemini',
+	capabilities: {
+		webSearch: true,
+		streaming: true,
+		jsonMode: true,
+	},
+	settings: [
+		{
+			key: 'apiKey',
+			name: 'Gemini API Key',
+			desc: 'Your Google Gemini API key',
+			type: 'secret',
+			placeholder: 'API key',
+			defaultValue: '',
+			required: true,
+		},
+		{
+			key: 'model',
+			name: 'Gemini Model',
+			desc: 'Model for knowledge expansion. Cost shown as input/output per 1M tokens.',
+			type: 'model',
+			defaultValue: 'gemini-1.5-flash',
+		},
+	],
+	models: [
+		{ id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash', pricing: { input: 0.075, output: 0.30 }, contextWindow: 1048576 },
+		{ id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', pricing: { input: 3.50, output: 10.50 }, contextWindow: 2097152 },
+		{ id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', pricing: { input: 0.10, output: 0.40 }, contextWindow: 1048576 },
+	],
+
+	buildRequest(request: CompletionRequest, config: ProviderConfig): HttpRequest {
+		const method = request.stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+		return {
+			url: `${API_BASE_URL}/models/${request.model}:${method}`,
+			headers: authHeaders(config),
+			body: {
+				contents: toContents(request.messages),
+				...(request.webSearch ? { tools: [searchTool(request.model)] } : {}),
+				generationConfig: {
+					temperature: 0.7,
+					maxOutputTokens: MAX_OUTPUT_TOKENS,
+					...jsonOutputConfig(request.responseSchema),
+				},
+			},
+		};
+	},
+
+	parseResponse(data: any): Completion {
+		checkBlocked(data);
+		if (!data.candidates?.length) {
+			throw invalidResponseError('no candidates');
+		}
+		const metadata = data.usageMetadata;
+		return {
+			content: extractText(data),
+			citations: extractCitations(data),
+			inputTokens: metadata?.promptTokenCount || 0,
+			cachedInputTokens: metadata?.cachedContentTokenCount || 0,
+			outputTokens: metadata?.candidatesTokenCount || 0,
+		};
+	},
+
+	parseStreamEvent(data: any): CompletionDelta {
+		checkBlocked(data);
+		const citations = extractCitations(data);
+		return {
+			text: extractText(data) || undefined,
+			citations: citations.length > 0 ? citations : undefined,
+			inputTokens: data.usageMetadata?.promptTokenCount,
+			cachedInputTokens: data.usageMetadata?.cachedContentTokenCount,
+			outputTokens: data.usageMetadata?.candidatesTokenCount,
+		};
+	},
+
+	embeddings: {
+		defaultModel: 'text-embedding-004',
+		buildRequest(texts: string[], model: string, dimensions: number, config: ProviderConfig): HttpRequest {
+			return {
+				url: `${API_BASE_URL}/models/${model}:batchEmbedContents`,
+				headers: authHeaders(config),
+				body: {
+					requests: texts.map(text => ({
+						model: `models/${model}`,
+						content: { parts: [{ text }] },
+						outputDimensionality: dimensions,
+					})),
+				},
+			};
+		},
+		parseResponse(data: any): number[][] {
+			return (data.embeddings || []).map((embedding: any) => embedding.values);
+		},
+	},
+};
@@ -0,0 +1,107 @@
+import { KnowledgeExpanderSettings } from '../types';
+import { claudeProvider } from './claude';
+import { geminiProvider } from './gemini';
+import { openAIProvider } from './openai';
+import { openAICompatibleProvider } from './openai-compatible';
+import { AIProviderDefinition, ProviderConfig, ProviderModel } from './types';
+
+export * from './errors';
+export * from './types';
+
+const registry = new Map<string, AIProviderDefinition>();
+
+export function registerProvider(provider: AIProviderDefinition): void {
+	registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string): AIProviderDefinition | undefined {
+	return registry.get(id);
+}
+
+export function getProviders(): AIProviderDefinition[] {
+	return Array.from(registry.values());
+}
+
+/** The provider's stored settings, with declared defaults filled in for anything unset. */
+export function getProviderConfig(settings: KnowledgeExpanderSettings, providerId: string): ProviderConfig {
+	const config: ProviderConfig = {};
+	const provider = getProvider(providerId);
+	if (provider) {
+		for (const field of provider.settings) {
+			config[field.key] = field.defaultValue;
+		}
+	}
+	return Object.assign(config, settings.providers[providerId]);
+}
+
+export function isLocalProvider(settings: KnowledgeExpanderSettings, providerId: string): boolean {
+	const provider = getProvider(providerId);
+	return !!provider?.isLocal?.(getProviderConfig(settings, providerId));
+}
+
+export function setProviderConfigValue(settings: KnowledgeExpanderSettings, providerId: string, key: string, value: string): void {
+	settings.providers[providerId] = Object.assign({}, settings.providers[providerId], { [key]: value });
+}
+
+/** The user's catalog for the provider, or its built-in models when the user has not edited it. */
+export function getModelCatalog(settings: KnowledgeExpanderSettings, providerId: string): ProviderModel[] {
+	return settings.modelCatalog[providerId] ?? getProvider(providerId)?.models ?? [];
+}
+
+export function findModel(settings: KnowledgeExpanderSettings, providerId: string, modelId: string): ProviderModel | undefined {
+	return getModelCatalog(settings, providerId).find(model => model.id === modelId);
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+	return typeof value === 'number' && isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Validates an imported catalog (`{ providerId: ProviderModel[] }`). Entries
+ * without an id are rejected; malformed prices are dropped, which leaves the
+ * model with an unknown cost.
+ */
+export function parseModelCatalog(json: string): Record<string, ProviderModel[]> {
+	const data = JSON.parse(json);
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		throw new Error('Catalog must be an object keyed by provider id');
+	}
+
+	const catalog: Record<string, ProviderModel[]> = {};
+	for (const [providerId, models] of Object.entries(data)) {
+		if (!getProvider(providerId)) {
+			throw new Error(`Unknown provider: ${providerId}`);
+		}
+		if (!Array.isArray(models)) {
+			throw new Error(`Models for ${providerId} must be an array`);
+		}
+
+		catalog[providerId] = models.map((entry: any) => {
+			if (!entry || typeof entry.id !== 'string' || !entry.id.trim()) {
+				throw new Error(`Every model for ${providerId} needs an id`);
+			}
+
+			const input = toOptionalNumber(entry.pricing?.input);
+			const output = toOptionalNumber(entry.pricing?.output);
+			const model: ProviderModel = {
+				id: entry.id.trim(),
+				label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : entry.id.trim(),
+			};
+			if (input !== undefined && output !== undefined) {
+				model.pricing = { input, output, cachedInput: toOptionalNumber(entry.pricing?.cachedInput) };
+			}
+			const contextWindow = toOptionalNumber(entry.contextWindow);
+			if (contextWindow) {
+				model.contextWindow = contextWindow;
+			}
+			return model;
+		});
+	}
+
+	return catalog;
+}
+
+registerProvider(openAIProvider);
+registerProvider(geminiProvider);
+registerProvider(claudeProvider);
+registerProvider(openAICompatibleProvider);
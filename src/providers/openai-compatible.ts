@@ -0,0 +1,121 @@
+import { buildChatCompletionsRequest, buildEmbeddingsRequest, parseEmbeddingsResponse, parseOpenAIResponse, parseOpenAIStreamEvent } from './openai';
+import { AIProviderDefinition, CompletionRequest, HttpRequest, ModelPricing, ProviderConfig } from './types';
+
+function normalizeBaseUrl(baseUrl: string): string {
+	return baseUrl.trim().replace(/\/+$/, '');
+}
+
+function buildHeaders(config: ProviderConfig): Record<string, string> {
+	return config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+}
+
+/** Loopback, private network and `.local` hosts. */
+const LOCAL_HOST = /^(?:localhost|127(?:\.\d{1,3}){3}|0\.0\.0\.0|\[::1\]|10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2}|[^.]+\.local)$/i;
+
+function parsePrice(value: string | undefined): number {
+	const price = parseFloat(value ?? '');
+	return isNaN(price) || price < 0 ? 0 : price;
+}
+
+export const openAICompatibleProvider: AIProviderDefinition = {
+	id: 'openai-compatible',
+	name: 'Custom (OpenAI-compatible)',
+	capabilities: {
+		webSearch: false,
+		streaming: true,
+		jsonMode: true,
+	},
+	settings: [
+		{
+			key: 'baseUrl',
+			name: 'Base URL',
+			desc: 'API base URL including the version path, e.g. http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio. Streaming uses fetch, so the server must allow the app://obsidian.md origin (OLLAMA_ORIGINS for Ollama).',
+			type: 'text',
+			placeholder: 'http://localhost:11434/v1',
+			defaultValue: 'http://localhost:11434/v1',
+			required: true,
+		},
+		{
+			key: 'apiKey',
+			name: 'API Key',
+			desc: 'Optional. Leave empty for local servers that do not require authentication.',
+			type: 'secret',
+			placeholder: 'Optional',
+			defaultValue: '',
+		},
+		{
+			key: 'model',
+			name: 'Model',
+			desc: 'Model name as the server knows it, e.g. llama3.1:8b. Use the refresh button to list the models the server offers.',
+			type: 'model',
+			placeholder: 'llama3.1:8b',
+			defaultValue: '',
+			required: true,
+		},
+		{
+			key: 'inputPrice',
+			name: 'Input price',
+			desc: 'Cost per 1M input tokens in USD. Leave empty for local models.',
+			type: 'number',
+			placeholder: '0',
+			defaultValue: '',
+		},
+		{
+			key: 'outputPrice',
+			name: 'Output price',
+			desc: 'Cost per 1M output tokens in USD. Leave empty for local models.',
+			type: 'number',
+			placeholder: '0',
+			defaultValue: '',
+		},
+	],
+	models: [],
+
+	buildRequest(request: CompletionRequest, config: ProviderConfig): HttpRequest {
+		return buildChatCompletionsRequest(normalizeBaseUrl(config.baseUrl), buildHeaders(config), request);
+	},
+
+	parseResponse: parseOpenAIResponse,
+	parseStreamEvent: parseOpenAIStreamEvent,
+
+	embeddings: {
+		defaultModel: 'nomic-embed-text',
+		buildRequest(texts: string[], model: string, dimensions: number, config: ProviderConfig): HttpRequest {
+			return buildEmbeddingsRequest(normalizeBaseUrl(config.baseUrl), buildHeaders(config), texts, model);
+		},
+		parseResponse: parseEmbeddingsResponse,
+	},
+
+	modelDiscovery: {
+		buildRequest(config: ProviderConfig): HttpRequest {
+			return {
+				url: `${normalizeBaseUrl(config.baseUrl)}/models`,
+				method: 'GET',
+				headers: buildHeaders(config),
+			};
+		},
+
+		parseResponse(data: any): string[] {
+			const models: any[] = Array.isArray(data?.data) ? data.data : [];
+			return models
+				.map(model => model.id)
+				.filter((id): id is string => typeof id === 'string')
+				.sort();
+		},
+	},
+
+	getPricing(model: string, config: ProviderConfig): ModelPricing {
+		return {
+			input: parsePrice(config.inputPrice),
+			output: parsePrice(config.outputPrice),
+		};
+	},
+
+	isLocal(config: ProviderConfig): boolean {
+		try {
+			return LOCAL_HOST.test(new URL(normalizeBaseUrl(config.baseUrl || '')).hostname);
+		} catch (error) {
+			return false;
+		}
+	},
+};
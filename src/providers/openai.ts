@@ -0,0 +1,278 @@
+import { Citation } from '../types';
+import { uniqueCitations } from './citations';
+import { contentFilteredError, invalidResponseError, ProviderError, ProviderErrorKind } from './errors';
+import { AIProviderDefinition, Completion, CompletionDelta, CompletionRequest, HttpRequest, MAX_OUTPUT_TOKENS, ProviderConfig } from './types';
+
+const API_BASE_URL = 'https://api.openai.com/v1';
+
+function isResponsesAPIModel(model: string): boolean {
+	return model.startsWith('gpt-5') || model.startsWith('gpt-4.1') || model.startsWith('o3') || model.startsWith('o4');
+}
+
+/**
+ * Joins the `output_text` parts of a Responses API result. Citation offsets
+ * are reported per part, so they are shifted to positions in the joined text.
+ */
+function extractOutput(data: any): { content: string; citations: Citation[] } {
+	let content = '';
+	const citations: Citation[] = [];
+
+	if (data.output && Array.isArray(data.output)) {
+		for (const item of data.output) {
+			if (item.type === 'message' && item.content) {
+				for (const contentItem of item.content) {
+					if (contentItem.type !== 'output_text') {
+						continue;
+					}
+
+					const offset = content.length;
+					content += contentItem.text;
+
+					for (const annotation of contentItem.annotations || []) {
+						if (annotation.type === 'url_citation') {
+							citations.push({
+								url: annotation.url,
+								title: annotation.title,
+								span: {
+									text: contentItem.text.slice(annotation.start_index, annotation.end_index),
+									start: offset + annotation.start_index,
+									end: offset + annotation.end_index,
+								},
+							});
+						}
+					}
+				}
+			}
+		}
+	}
+
+	return { content, citations: uniqueCitations(citations) };
+}
+
+/** Error codes sent in a stream's `error` and `response.failed` events, by the kind of error they are. */
+const STREAM_ERROR_KINDS: [RegExp, ProviderErrorKind][] = [
+	[/insufficient_quota|quota/, 'quota'],
+	[/rate_limit/, 'rate-limit'],
+	[/context_length|too_long/, 'context-too-long'],
+	[/invalid_api_key|authentication|permission/, 'auth'],
+	[/server_error|overloaded|timeout/, 'server'],
+	[/invalid_request|invalid_prompt|not_found|unsupported/, 'bad-request'],
+];
+
+/** A stream that fails after it started reports the error as an event instead of an HTTP status. */
+function streamError(error: any): ProviderError {
+	const code = `${error?.code || ''} ${error?.type || ''}`.toLowerCase();
+	const message = error?.message || 'unknown error';
+	if (/content_filter|content_policy/.test(code)) {
+		return contentFilteredError(message);
+	}
+	const kind = STREAM_ERROR_KINDS.find(([pattern]) => pattern.test(code))?.[1] ?? 'server';
+	return new ProviderError(kind, `The streamed response failed: ${message}`);
+}
+
+/** Chat Completions request shared by OpenAI and OpenAI-compatible endpoints. */
+export function buildChatCompletionsRequest(baseUrl: string, headers: Record<string, string>, request: CompletionRequest): HttpRequest {
+	return {
+		url: `${baseUrl}/chat/completions`,
+		headers,
+		body: {
+			model: request.model,
+			messages: request.messages,
+			temperature: 0.7,
+			max_tokens: MAX_OUTPUT_TOKENS,
+			...(request.responseSchema ? {
+				response_format: {
+					type: 'json_schema',
+					json_schema: { name: request.responseSchema.name, description: request.responseSchema.description, strict: true, schema: request.responseSchema.schema },
+				},
+			} : {}),
+			...(request.stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+		},
+	};
+}
+
+/** Embeddings request shared by OpenAI and OpenAI-compatible endpoints. */
+export function buildEmbeddingsRequest(baseUrl: string, headers: Record<string, string>, texts: string[], model: string, dimensions?: number): HttpRequest {
+	return {
+		url: `${baseUrl}/embeddings`,
+		headers,
+		body: {
+			model,
+			input: texts,
+			...(dimensions ? { dimensions } : {}),
+		},
+	};
+}
+
+export function parseEmbeddingsResponse(data: any): number[][] {
+	return [...data.data]
+		.sort((a: any, b: any) => a.index - b.index)
+		.map((item: any) => item.embedding);
+}
+
+export function parseOpenAIResponse(data: any): Completion {
+	if (data.choices) {
+		const choice = data.choices[0];
+		if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+			throw contentFilteredError(choice.message?.refusal || '');
+		}
+		if (typeof choice?.message?.content !== 'string') {
+			throw invalidResponseError('no choices');
+		}
+		const usage = data.usage || {};
+		return {
+			content: choice.message.content,
+			citations: [],
+			inputTokens: usage.prompt_tokens || 0,
+			cachedInputTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+			outputTokens: usage.completion_tokens || 0,
+		};
+	}
+
+	if (data.incomplete_details?.reason === 'content_filter') {
+		throw contentFilteredError();
+	}
+	const usage = data.usage || { input_tokens: 0, output_tokens: 0 };
+	const output = extractOutput(data);
+	if (!output.content) {
+		throw invalidResponseError('no output text');
+	}
+	return {
+		content: output.content,
+		citations: output.citations,
+		inputTokens: usage.input_tokens || 0,
+		cachedInputTokens: usage.input_tokens_details?.cached_tokens || 0,
+		outputTokens: usage.output_tokens || 0,
+	};
+}
+
+export function parseOpenAIStreamEvent(data: any): CompletionDelta {
+	if (data.choices) {
+		if (data.choices[0]?.finish_reason === 'content_filter') {
+			throw contentFilteredError();
+		}
+		return {
+			text: data.choices[0]?.delta?.content || undefined,
+			inputTokens: data.usage?.prompt_tokens,
+			cachedInputTokens: data.usage?.prompt_tokens_details?.cached_tokens,
+			outputTokens: data.usage?.completion_tokens,
+		};
+	}
+	// Chat Completions endpoints send a bare error object when a stream breaks off.
+	if (data.error && !data.type) {
+		throw streamError(data.error);
+	}
+
+	switch (data.type) {
+		case 'response.output_text.delta':
+			return { text: data.delta };
+		case 'response.completed':
+			return {
+				citations: data.response ? extractOutput(data.response).citations : [],
+				inputTokens: data.response?.usage?.input_tokens || 0,
+				cachedInputTokens: data.response?.usage?.input_tokens_details?.cached_tokens || 0,
+				outputTokens: data.response?.usage?.output_tokens || 0,
+			};
+		case 'response.failed':
+			throw streamError(data.response?.error);
+		case 'error':
+			throw streamError(data.error ?? data);
+		default:
+			return {};
+	}
+}
+
+export const openAIProvider: AIProviderDefinition = {
+	id: 'openai',
+	name: 'OpenAI (ChatGPT)',
+	capabilities: {
+		webSearch: true,
+		streaming: true,
+		jsonMode: true,
+	},
+	settings: [
+		{
+			key: 'apiKey',
+			name: 'OpenAI API Key',
+			desc: 'Your OpenAI API key',
+			type: 'secret',
+			placeholder: 'sk-...',
+			defaultValue: '',
+			required: true,
+		},
+		{
+			key: 'model',
+			name: 'OpenAI Model (Expand Knowledge)',
+			desc: 'Model for knowledge expansion. Cost shown as input/output per 1M tokens.',
+			type: 'model',
+			defaultValue: 'gpt-4o',
+		},
+		{
+			key: 'webSearchModel',
+			name: 'OpenAI Model (Web Search)',
+			desc: 'Model for web search. Cost shown as input/output per 1M tokens.',
+			type: 'model',
+			defaultValue: 'gpt-4o-mini',
+		},
+	],
+	models: [
+		{ id: 'gpt-5.2', label: 'GPT-5.2', pricing: { input: 1.75, output: 14.00 }, contextWindow: 400000 },
+		{ id: 'gpt-5.2-pro', label: 'GPT-5.2 Pro', pricing: { input: 21.00, output: 168.00 }, contextWindow: 400000 },
+		{ id: 'gpt-5.1', label: 'GPT-5.1', pricing: { input: 1.25, output: 10.00 }, contextWindow: 400000 },
+		{ id: 'gpt-5', label: 'GPT-5', pricing: { input: 1.25, output: 10.00 }, contextWindow: 400000 },
+		{ id: 'gpt-5-mini', label: 'GPT-5 Mini', pricing: { input: 0.25, output: 2.00 }, contextWindow: 400000 },
+		{ id: 'gpt-5-nano', label: 'GPT-5 Nano', pricing: { input: 0.05, output: 0.40 }, contextWindow: 400000 },
+		{ id: 'gpt-5-pro', label: 'GPT-5 Pro', pricing: { input: 15.00, output: 120.00 }, contextWindow: 400000 },
+		{ id: 'gpt-4.1', label: 'GPT-4.1', pricing: { input: 3.00, output: 12.00 }, contextWindow: 1047576 },
+		{ id: 'gpt-4.1-mini', label: 'GPT-4.1 Mini', pricing: { input: 0.80, output: 3.20 }, contextWindow: 1047576 },
+		{ id: 'gpt-4.1-nano', label: 'GPT-4.1 Nano', pricing: { input: 0.20, output: 0.80 }, contextWindow: 1047576 },
+		{ id: 'gpt-4o', label: 'GPT-4o', pricing: { input: 2.50, output: 10.00 }, contextWindow: 128000 },
+		{ id: 'gpt-4o-mini', label: 'GPT-4o Mini', pricing: { input: 0.15, output: 0.60 }, contextWindow: 128000 },
+		{ id: 'o3', label: 'o3', pricing: { input: 2.00, output: 8.00 }, contextWindow: 200000 },
+		{ id: 'o3-pro', label: 'o3 Pro', pricing: { input: 20.00, output: 80.00 }, contextWindow: 200000 },
+		{ id: 'o4-mini', label: 'o4 Mini', pricing: { input: 4.00, output: 16.00 }, contextWindow: 200000 },
+		{ id: 'o1', label: 'o1', pricing: { input: 15.00, output: 60.00 }, contextWindow: 200000 },
+		{ id: 'o1-pro', label: 'o1 Pro', pricing: { input: 150.00, output: 600.00 }, contextWindow: 200000 },
+		{ id: 'o1-mini', label: 'o1 Mini', pricing: { input: 1.10, output: 4.40 }, contextWindow: 128000 },
+	],
+
+	buildRequest(request: CompletionRequest, config: ProviderConfig): HttpRequest {
+		const headers = {
+			'Authorization': `Bearer ${config.apiKey}`,
+		};
+
+		if (request.webSearch || isResponsesAPIModel(request.model)) {
+			return {
+				url: `${API_BASE_URL}/responses`,
+				headers,
+				body: {
+					model: request.model,
+					...(request.webSearch ? { tools: [{ type: 'web_search_preview' }] } : {}),
+					input: request.messages,
+					max_output_tokens: MAX_OUTPUT_TOKENS,
+					...(request.responseSchema ? {
+						text: {
+							format: { type: 'json_schema', name: request.responseSchema.name, description: request.responseSchema.description, strict: true, schema: request.responseSchema.schema },
+						},
+					} : {}),
+					...(request.stream ? { stream: true } : {}),
+				},
+			};
+		}
+
+		return buildChatCompletionsRequest(API_BASE_URL, headers, request);
+	},
+
+	parseResponse: parseOpenAIResponse,
+	parseStreamEvent: parseOpenAIStreamEvent,
+
+	embeddings: {
+		defaultModel: 'text-embedding-3-small',
+		buildRequest(texts: string[], model: string, dimensions: number, config: ProviderConfig): HttpRequest {
+			// Only the text-embedding-3 models can shorten their vectors.
+			const shortened = model.startsWith('text-embedding-3') ? dimensions : undefined;
+			return buildEmbeddingsRequest(API_BASE_URL, { 'Authorization': `Bearer ${config.apiKey}` }, texts, model, shortened);
+		},
+		parseResponse: parseEmbeddingsResponse,
+	},
+};
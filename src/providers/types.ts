@@ -0,0 +1,125 @@
+import { Citation } from '../types';
+
+/** USD per 1M tokens. `cachedInput` applies to input tokens served from the provider's prompt cache. */
+export interface ModelPricing {
+	input: number;
+	output: number;
+	cachedInput?: number;
+}
+
+/** An entry of the model catalog. A model without `pricing` has an unknown cost. */
+export interface ProviderModel {
+	id: string;
+	label: string;
+	pricing?: ModelPricing;
+	contextWindow?: number;
+}
+
+/**
+ * A setting a provider needs, rendered by the settings tab. `model` fields
+ * render as a dropdown of the provider's models, or as free text when the
+ * provider discovers its models at runtime.
+ */
+export interface ProviderSettingField {
+	key: string;
+	name: string;
+	desc: string;
+	type: 'text' | 'secret' | 'number' | 'model';
+	placeholder?: string;
+	defaultValue: string;
+	required?: boolean;
+}
+
+export interface ProviderCapabilities {
+	webSearch: boolean;
+	streaming: boolean;
+	jsonMode: boolean;
+}
+
+export type ProviderConfig = Record<string, string>;
+
+export interface ChatMessage {
+	role: 'user' | 'assistant';
+	content: string;
+}
+
+/** A JSON schema the response must follow, for providers with `jsonMode`. */
+export interface ResponseSchema {
+	name: string;
+	description: string;
+	schema: Record<string, any>;
+}
+
+/** Most tokens a completion may generate. Prompts are budgeted to leave this much of the context window free. */
+export const MAX_OUTPUT_TOKENS = 2000;
+
+export interface CompletionRequest {
+	model: string;
+	messages: ChatMessage[];
+	webSearch: boolean;
+	stream: boolean;
+	/** When set, the completion's `content` is a JSON object following this schema. */
+	responseSchema?: ResponseSchema;
+}
+
+export interface HttpRequest {
+	url: string;
+	method?: 'GET' | 'POST';
+	headers: Record<string, string>;
+	body?: object;
+}
+
+export interface Completion {
+	content: string;
+	citations: Citation[];
+	inputTokens: number;
+	/** The part of `inputTokens` read from the prompt cache. */
+	cachedInputTokens?: number;
+	outputTokens: number;
+}
+
+/** The part of a completion carried by a single streamed event. */
+export interface CompletionDelta {
+	text?: string;
+	cachedInputTokens?: number;
+	/** Discards the text received so far, e.g. commentary emitted before a tool call. */
+	resetText?: boolean;
+	citations?: Citation[];
+	/** Marks the start of a content block whose text `blockCitations` support up to `blockEnd`. */
+	blockStart?: boolean;
+	blockCitations?: Citation[];
+	blockEnd?: boolean;
+	/** Part of the arguments of a tool call, which is where a forced tool call puts a structured response. */
+	toolInput?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+}
+
+export interface AIProviderDefinition {
+	id: string;
+	name: string;
+	capabilities: ProviderCapabilities;
+	/** Fields stored under `settings.providers[id]`. The `model` key selects the model; `webSearchModel`, when declared, overrides it for web search. */
+	settings: ProviderSettingField[];
+	/** Built-in catalog entries, used until the user edits the provider's catalog. */
+	models: ProviderModel[];
+	buildRequest(request: CompletionRequest, config: ProviderConfig): HttpRequest;
+	parseResponse(data: any): Completion;
+	parseStreamEvent(data: any): CompletionDelta;
+	/** Lists the models an endpoint serves, for providers without a fixed model list. */
+	modelDiscovery?: {
+		buildRequest(config: ProviderConfig): HttpRequest;
+		parseResponse(data: any): string[];
+	};
+	/** Turns texts into embedding vectors, for providers that offer an embeddings endpoint. */
+	embeddings?: {
+		defaultModel: string;
+		/** `dimensions` is a hint; endpoints that cannot shorten their vectors ignore it. */
+		buildRequest(texts: string[], model: string, dimensions: number, config: ProviderConfig): HttpRequest;
+		parseResponse(data: any): number[][];
+	};
+	/** Pricing taken from the provider's own settings rather than its model list. */
+	getPricing?(model: string, config: ProviderConfig): ModelPricing | undefined;
+	/** Whether requests stay on this machine or network. Providers without it send them to a remote service. */
+	isLocal?(config: ProviderConfig): boolean;
+}
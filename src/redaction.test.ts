@@ -0,0 +1,74 @@
+import { findInvalidPatterns, Redactor } from './redaction';
+
+const allDetectors = { detectors: ['email', 'phone', 'rrn', 'card', 'secret'] as const, patterns: [], terms: [] };
+
+describe('Redactor', () => {
+	it('gives a repeated value the same placeholder and restores it', () => {
+		const redactor = new Redactor({ ...allDetectors, detectors: ['email'] });
+		const redacted = redactor.redact('Mail a@b.com, then a@b.com again, or c@d.org.');
+		expect(redacted).toBe('Mail [EMAIL_1], then [EMAIL_1] again, or [EMAIL_2].');
+		expect(redactor.size).toBe(2);
+		expect(redactor.restore(redacted)).toBe('Mail a@b.com, then a@b.com again, or c@d.org.');
+	});
+
+	it('tells card numbers from other long numbers by their check digit', () => {
+		const redactor = new Redactor({ ...allDetectors, detectors: ['card'] });
+		expect(redactor.redact('Card 4111 1111 1111 1111 paid')).toBe('Card [CARD_1] paid');
+		expect(redactor.redact('Order 4111 1111 1111 1112 shipped')).toBe('Order 4111 1111 1111 1112 shipped');
+	});
+
+	it('redacts custom terms case-insensitively, longest first', () => {
+		const redactor = new Redactor({ detectors: [], patterns: [], terms: ['Falcon', 'Project Falcon'] });
+		expect(redactor.redact('project falcon and Falcon')).toBe('[REDACTED_1] and [REDACTED_2]');
+	});
+
+	it('does not let a custom pattern match inside an earlier placeholder', () => {
+		const redactor = new Redactor({ detectors: ['email'], patterns: ['EMAIL'], terms: [] });
+		expect(redactor.redact('a@b.com and EMAIL')).toBe('[EMAIL_1] and [REDACTED_1]');
+	});
+
+	it('escapes restored values for JSON when asked', () => {
+		const redactor = new Redactor({ detectors: [], patterns: [], terms: ['say "hi"'] });
+		const redacted = redactor.redact('They say "hi"');
+		expect(redactor.restore(JSON.stringify(redacted), value => JSON.stringify(value).slice(1, -1))).toBe(JSON.stringify('They say "hi"'));
+	});
+
+	it('leaves unknown placeholders alone', () => {
+		const redactor = new Redactor({ ...allDetectors, detectors: ['email'] });
+		redactor.redact('a@b.com');
+		expect(redactor.restore('[EMAIL_1] [EMAIL_9]')).toBe('a@b.com [EMAIL_9]');
+	});
+
+	describe('streamRestorer', () => {
+		const stream = (redactor: Redactor, chunks: string[]) => {
+			const restore = redactor.streamRestorer();
+			const out = chunks.map(chunk => restore(chunk));
+			out.push(restore());
+			return out;
+		};
+
+		it('restores a placeholder split across chunks', () => {
+			const redactor = new Redactor({ ...allDetectors, detectors: ['email'] });
+			redactor.redact('a@b.com');
+			const out = stream(redactor, ['Write to [EM', 'AIL_', '1] now']);
+			expect(out).toEqual(['Write to ', '', 'a@b.com now', '']);
+		});
+
+		it('releases held text that turns out not to be a placeholder', () => {
+			const redactor = new Redactor({ ...allDetectors, detectors: ['email'] });
+			redactor.redact('a@b.com');
+			expect(stream(redactor, ['see [A', 'BC] and [EMAIL_1']).join('')).toBe('see [ABC] and [EMAIL_1');
+		});
+
+		it('holds nothing back when nothing was redacted', () => {
+			const redactor = new Redactor({ ...allDetectors, detectors: ['email'] });
+			expect(stream(redactor, ['a [EM', 'AIL_1]'])).toEqual(['a [EM', 'AIL_1]', '']);
+		});
+	});
+});
+
+describe('findInvalidPatterns', () => {
+	it('returns the patterns that do not compile', () => {
+		expect(findInvalidPatterns(['\\d+', '(', '[a-z'])).toEqual(['(', '[a-z']);
+	});
+});
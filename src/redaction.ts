@@ -0,0 +1,194 @@
+/** Built-in kinds of sensitive text that can be replaced before a prompt is sent. */
+export type RedactionDetector = 'email' | 'phone' | 'rrn' | 'card' | 'secret';
+
+export interface RedactionOptions {
+	detectors: RedactionDetector[];
+	/** Regular expressions; every match is redacted. */
+	patterns: string[];
+	/** Literal terms such as codenames or customer names, matched case-insensitively. */
+	terms: string[];
+}
+
+interface RedactionRule {
+	label: string;
+	pattern: RegExp;
+	/** Further check on a match at `offset` in `text`, for patterns that also match harmless text. */
+	accept?: (match: string, offset: number, text: string) => boolean;
+}
+
+export const REDACTION_DETECTORS: { id: RedactionDetector; name: string }[] = [
+	{ id: 'email', name: 'Email addresses' },
+	{ id: 'phone', name: 'Phone numbers' },
+	{ id: 'rrn', name: 'Korean resident registration numbers' },
+	{ id: 'card', name: 'Card numbers' },
+	{ id: 'secret', name: 'API keys and tokens' },
+];
+
+/** Card numbers are told apart from other long numbers by their Luhn check digit. */
+function passesLuhn(value: string): boolean {
+	const digits = value.replace(/\D/g, '');
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) {
+				digit -= 9;
+			}
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+/** Whether a number is not just part of a longer run of digit groups, such as an account number. */
+function standsAlone(match: string, offset: number, text: string): boolean {
+	return !/\d[ .-]?$/.test(text.slice(Math.max(0, offset - 2), offset))
+		&& !/^[ .-]?\d/.test(text.slice(offset + match.length, offset + match.length + 2));
+}
+
+/** Applied in this order, so numbers that are cards or registration numbers are not taken for phone numbers. */
+const DETECTOR_RULES: Record<RedactionDetector, RedactionRule> = {
+	secret: {
+		label: 'SECRET',
+		// Known key prefixes, then any long token that mixes upper case, lower case and digits.
+		pattern: /\b(?:(?:sk|pk|rk)-[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|(?=[A-Za-z0-9_-]*\d)(?=[A-Za-z0-9_-]*[a-z])(?=[A-Za-z0-9_-]*[A-Z])[A-Za-z0-9_-]{32,})\b/g,
+	},
+	email: {
+		label: 'EMAIL',
+		pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+	},
+	rrn: {
+		label: 'RRN',
+		pattern: /\b\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])-?[1-8]\d{6}\b/g,
+	},
+	card: {
+		label: 'CARD',
+		pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+		accept: (match, offset, text) => passesLuhn(match) && standsAlone(match, offset, text),
+	},
+	phone: {
+		label: 'PHONE',
+		pattern: /(?:\+\d{1,3}[ .-]?\d{1,4}[ .-]|\(\d{1,4}\)[ .-]?|\b\d{2,4}[ .-])\d{3,4}[ .-]\d{4}\b/g,
+		accept: standsAlone,
+	},
+};
+
+const CUSTOM_LABEL = 'REDACTED';
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|RRN|CARD|SECRET|REDACTED)_\d+\]/g;
+
+/** The end of a streamed chunk that may be the start of a placeholder finished in the next one. */
+const PARTIAL_PLACEHOLDER = /\[[A-Z]*(?:_\d*)?$/;
+
+/** Splits text around placeholders, which then sit at the odd indices. */
+const PLACEHOLDER_SPLIT = /(\[(?:EMAIL|PHONE|RRN|CARD|SECRET|REDACTED)_\d+\])/;
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Custom patterns that do not compile, so the settings can point them out. */
+export function findInvalidPatterns(patterns: string[]): string[] {
+	return patterns.filter(pattern => {
+		try {
+			new RegExp(pattern);
+			return false;
+		} catch (error) {
+			return true;
+		}
+	});
+}
+
+/**
+ * Replaces sensitive values with placeholders such as `[EMAIL_1]` and puts
+ * them back in the answer. One redactor is used per request, so a value
+ * repeated anywhere in the prompt always gets the same placeholder.
+ */
+export class Redactor {
+	private rules: RedactionRule[] = [];
+	private placeholders = new Map<string, string>();
+	private originals = new Map<string, string>();
+	private counts: Record<string, number> = {};
+
+	constructor(options: RedactionOptions) {
+		for (const id of Object.keys(DETECTOR_RULES) as RedactionDetector[]) {
+			if (options.detectors.includes(id)) {
+				this.rules.push(DETECTOR_RULES[id]);
+			}
+		}
+		for (const pattern of options.patterns) {
+			if (pattern.trim() && findInvalidPatterns([pattern]).length === 0) {
+				this.rules.push({ label: CUSTOM_LABEL, pattern: new RegExp(pattern, 'g') });
+			}
+		}
+		// Longest first, so a term is not cut short by another term it contains.
+		const terms = options.terms.map(term => term.trim()).filter(term => term).sort((a, b) => b.length - a.length);
+		if (terms.length > 0) {
+			this.rules.push({ label: CUSTOM_LABEL, pattern: new RegExp(terms.map(escapeRegExp).join('|'), 'gi') });
+		}
+	}
+
+	/** How many distinct values have been replaced so far. */
+	get size(): number {
+		return this.originals.size;
+	}
+
+	redact(text: string): string {
+		return this.rules.reduce((result, rule) => this.apply(result, rule), text);
+	}
+
+	/**
+	 * Puts the original values back. `escape` is applied to each of them, for
+	 * text such as JSON where they would otherwise break the syntax.
+	 */
+	restore(text: string, escape: (value: string) => string = value => value): string {
+		if (this.originals.size === 0) {
+			return text;
+		}
+		return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+			const original = this.originals.get(placeholder);
+			return original === undefined ? placeholder : escape(original);
+		});
+	}
+
+	/**
+	 * Restores placeholders in streamed text. The returned function takes each
+	 * chunk and returns the text that can be shown so far, holding back an end
+	 * that may be cut off in the middle of a placeholder. Called without a
+	 * chunk at the end of the stream, it returns what was held back.
+	 */
+	streamRestorer(): (chunk?: string) => string {
+		let held = '';
+		return (chunk?: string) => {
+			const text = held + (chunk ?? '');
+			const partial = chunk === undefined || this.originals.size === 0 ? null : PARTIAL_PLACEHOLDER.exec(text);
+			held = partial ? partial[0] : '';
+			return this.restore(partial ? text.slice(0, partial.index) : text);
+		};
+	}
+
+	private apply(text: string, rule: RedactionRule): string {
+		// Earlier placeholders are left alone, so a custom pattern cannot match inside one.
+		return text.split(PLACEHOLDER_SPLIT).map((part, index) => index % 2 === 1 ? part : part.replace(rule.pattern, (match: string, ...args: any[]) => {
+			// The offset is the first number after the capture groups, which custom patterns may have.
+			const offset: number = args.find(arg => typeof arg === 'number');
+			if (!match || (rule.accept && !rule.accept(match, offset, part))) {
+				return match;
+			}
+			return this.placeholderFor(match, rule.label);
+		})).join('');
+	}
+
+	private placeholderFor(value: string, label: string): string {
+		const existing = this.placeholders.get(value);
+		if (existing) {
+			return existing;
+		}
+		this.counts[label] = (this.counts[label] || 0) + 1;
+		const placeholder = `[${label}_${this.counts[label]}]`;
+		this.placeholders.set(value, placeholder);
+		this.originals.set(placeholder, value);
+		return placeholder;
+	}
+}
@@ -0,0 +1,30 @@
+import { App, SuggestModal } from 'obsidian';
+import { t } from './i18n';
+import { RelatedNote } from './related-notes';
+
+/** Lists the notes related to a selection or note; choosing one opens it. */
+export class RelatedNotesModal extends SuggestModal<RelatedNote> {
+	private notes: RelatedNote[];
+	private sourcePath: string;
+
+	constructor(app: App, notes: RelatedNote[], sourcePath: string) {
+		super(app);
+		this.notes = notes;
+		this.sourcePath = sourcePath;
+		this.setPlaceholder(t('relatedNotesPlaceholder'));
+	}
+
+	getSuggestions(query: string): RelatedNote[] {
+		const lowerQuery = query.toLowerCase();
+		return this.notes.filter(note => note.title.toLowerCase().includes(lowerQuery) || note.excerpt.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(note: RelatedNote, el: HTMLElement): void {
+		el.createEl('div', { text: note.title });
+		el.createEl('small', { text: note.excerpt.length > 120 ? `${note.excerpt.slice(0, 120)}…` : note.excerpt });
+	}
+
+	onChooseSuggestion(note: RelatedNote): void {
+		this.app.workspace.openLinkText(note.file.path, this.sourcePath);
+	}
+}
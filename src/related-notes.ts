@@ -0,0 +1,163 @@
+import { App, CachedMetadata, getAllTags, TFile } from 'obsidian';
+import { blankComments } from './expansion-source';
+import { KeywordExtractor } from './keyword-extractor';
+import { FRONT_MATTER_PATTERN } from './template-engine';
+import { VaultIndex } from './vault-index';
+
+export interface RelatedNote {
+	file: TFile;
+	/** The note's link target, its basename. */
+	title: string;
+	excerpt: string;
+	score: number;
+}
+
+const MAX_EXCERPT_LENGTH = 400;
+/** Notes read from disk for body matches and excerpts; the rest are ranked on metadata only. */
+const MAX_CANDIDATES = 20;
+
+const SCORE = {
+	outgoingLink: 4,
+	backlink: 3,
+	sharedTag: 1,
+	titleMatch: 3,
+	aliasMatch: 2,
+	headingMatch: 1,
+	bodyMatch: 0.5,
+	/** Scaled by the index's normalized score. */
+	indexMatch: 6,
+};
+
+function tagsOf(cache: CachedMetadata | null): string[] {
+	return cache ? (getAllTags(cache) || []).map(tag => tag.replace(/^#/, '').toLowerCase()) : [];
+}
+
+function aliasesOf(cache: CachedMetadata | null): string[] {
+	const aliases = cache?.frontmatter?.aliases;
+	const list: unknown[] = Array.isArray(aliases) ? aliases : [aliases];
+	return list.filter((alias): alias is string => typeof alias === 'string').map(alias => alias.toLowerCase());
+}
+
+function countOccurrences(text: string, term: string): number {
+	let count = 0;
+	for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+		count++;
+	}
+	return count;
+}
+
+/**
+ * Finds notes related to a selection so the prompt can point the model at
+ * what the vault already covers. Notes are ranked by links to and from the
+ * source note, shared tags and keyword matches. Once the vault index is
+ * built, its full-text ranking replaces the per-note body scan.
+ */
+export class RelatedNoteRetriever {
+	private app: App;
+	private keywordExtractor: KeywordExtractor;
+	private vaultIndex: VaultIndex | null;
+
+	constructor(app: App, keywordExtractor: KeywordExtractor, vaultIndex: VaultIndex | null = null) {
+		this.app = app;
+		this.keywordExtractor = keywordExtractor;
+		this.vaultIndex = vaultIndex;
+	}
+
+	/** Keywords from the extractor plus the plain words of the selection, lower-cased. */
+	extractTerms(selectedText: string, context: string): string[] {
+		const keywords = this.keywordExtractor.extractKeywords(`${selectedText}\n${context}`, selectedText);
+		const words = selectedText.split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 3 || /\P{ASCII}/u.test(word) && word.length >= 2);
+		return Array.from(new Set([...keywords, ...words].map(term => term.toLowerCase())));
+	}
+
+	async findRelated(sourcePath: string, selectedText: string, context: string, limit: number, exclude: string[] = []): Promise<RelatedNote[]> {
+		if (limit <= 0) {
+			return [];
+		}
+
+		const terms = this.extractTerms(selectedText, context);
+		const metadataCache = this.app.metadataCache;
+		const outgoing = metadataCache.resolvedLinks[sourcePath] || {};
+		const sourceTags = new Set(tagsOf(metadataCache.getCache(sourcePath)));
+		const skipped = new Set([sourcePath, ...exclude]);
+
+		const scores = new Map<TFile, number>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (skipped.has(file.path)) {
+				continue;
+			}
+
+			const cache = metadataCache.getFileCache(file);
+			const title = file.basename.toLowerCase();
+			const aliases = aliasesOf(cache);
+			const headings = (cache?.headings || []).map(heading => heading.heading.toLowerCase());
+
+			let score = 0;
+			if (outgoing[file.path]) {
+				score += SCORE.outgoingLink;
+			}
+			if (metadataCache.resolvedLinks[file.path]?.[sourcePath]) {
+				score += SCORE.backlink;
+			}
+			score += tagsOf(cache).filter(tag => sourceTags.has(tag)).length * SCORE.sharedTag;
+			for (const term of terms) {
+				if (title.includes(term)) {
+					score += SCORE.titleMatch;
+				}
+				if (aliases.some(alias => alias.includes(term))) {
+					score += SCORE.aliasMatch;
+				}
+				if (headings.some(heading => heading.includes(term))) {
+					score += SCORE.headingMatch;
+				}
+			}
+
+			if (score > 0) {
+				scores.set(file, score);
+			}
+		}
+
+		const useIndex = !!this.vaultIndex && this.vaultIndex.isReady();
+		if (useIndex && this.vaultIndex) {
+			const hits = await this.vaultIndex.search(`${selectedText}\n${context}`, { limit: MAX_CANDIDATES, exclude: Array.from(skipped) });
+			for (const hit of hits) {
+				const file = this.app.vault.getAbstractFileByPath(hit.path);
+				if (file instanceof TFile) {
+					scores.set(file, (scores.get(file) || 0) + hit.score * SCORE.indexMatch);
+				}
+			}
+		}
+
+		const candidates = Array.from(scores.entries())
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, MAX_CANDIDATES);
+
+		const related: RelatedNote[] = [];
+		for (const [file, metadataScore] of candidates) {
+			const body = blankComments((await this.app.vault.cachedRead(file)).replace(FRONT_MATTER_PATTERN, ''));
+			const lowerBody = body.toLowerCase();
+			const bodyScore = useIndex ? 0 : terms.reduce((sum, term) => sum + Math.min(countOccurrences(lowerBody, term), 5), 0) * SCORE.bodyMatch;
+			related.push({
+				file,
+				title: file.basename,
+				excerpt: this.excerpt(body, terms),
+				score: metadataScore + bodyScore,
+			});
+		}
+
+		return related
+			.filter(note => note.excerpt)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+
+	/** The first paragraph that mentions a term, or the note's opening paragraph. */
+	private excerpt(body: string, terms: string[]): string {
+		const paragraphs = body
+			.split(/\n\s*\n/)
+			.map(paragraph => paragraph.split('\n').filter(line => !/^#+\s/.test(line)).join('\n').trim())
+			.filter(Boolean);
+		const paragraph = paragraphs.find(p => terms.some(term => p.toLowerCase().includes(term))) || paragraphs[0] || '';
+		return paragraph.length > MAX_EXCERPT_LENGTH ? `${paragraph.slice(0, MAX_EXCERPT_LENGTH).trim()}…` : paragraph;
+	}
+}
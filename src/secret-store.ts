@@ -0,0 +1,175 @@
+import { Platform } from 'obsidian';
+
+/**
+ * Where API keys are kept. `keychain` encrypts them with the operating
+ * system's key store and keeps them on this device only; `passphrase`
+ * encrypts them with a key derived from a passphrase, which is safe to sync.
+ */
+export type SecretStorageMode = 'keychain' | 'passphrase';
+
+/** Passphrase-encrypted secrets, as kept in the plugin data. Fields are base64. */
+export interface EncryptedSecrets {
+	salt: string;
+	iv: string;
+	data: string;
+}
+
+/** Secret values keyed by `<provider id>.<field key>`. */
+export type Secrets = Record<string, string>;
+
+const PBKDF2_ITERATIONS = 210000;
+
+/** A secret written as `$NAME` or `${NAME}` is read from the environment variable `NAME` when used. */
+const ENV_REFERENCE_PATTERN = /^\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?$/;
+
+export function getEnvReference(value: string): string | null {
+	return value.trim().match(ENV_REFERENCE_PATTERN)?.[1] ?? null;
+}
+
+/** The value of a referenced environment variable, or `value` itself when it is not a reference. */
+export function resolveEnvReference(value: string): string {
+	const name = getEnvReference(value);
+	if (name === null) {
+		return value;
+	}
+	return (typeof process !== 'undefined' && process.env?.[name]) || '';
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	bytes.forEach(byte => binary += String.fromCharCode(byte));
+	return window.btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+	return Uint8Array.from(window.atob(text), char => char.charCodeAt(0));
+}
+
+/** The part of Electron's `safeStorage` used here. */
+interface SafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): Buffer;
+	decryptString(encrypted: Buffer): string;
+}
+
+/** Electron's `safeStorage`, when this is the desktop app and the OS offers encryption. */
+function getSafeStorage(): SafeStorage | null {
+	if (!Platform.isDesktopApp) {
+		return null;
+	}
+	// `safeStorage` lives in Electron's main process. Older Obsidian builds reach it through
+	// `remote`, newer ones through `@electron/remote`; where neither exists there is no keychain.
+	/* eslint-disable @typescript-eslint/no-var-requires */
+	const sources: (() => SafeStorage | undefined)[] = [
+		() => require('electron').remote?.safeStorage,
+		() => require('@electron/remote').safeStorage,
+		() => require('electron').safeStorage,
+	];
+	/* eslint-enable @typescript-eslint/no-var-requires */
+	for (const source of sources) {
+		try {
+			const safeStorage = source();
+			if (safeStorage?.isEncryptionAvailable()) {
+				return safeStorage;
+			}
+		} catch (error) {
+			// Not available in this build; try the next.
+		}
+	}
+	return null;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt']
+	);
+}
+
+/**
+ * Keeps API keys out of the synced plugin data. Keychain secrets live in this
+ * device's local storage, encrypted by the OS; passphrase secrets are
+ * encrypted here and handed back for the caller to save.
+ */
+export class SecretStore {
+	private storageKey: string;
+	private passphraseKey: CryptoKey | null = null;
+	private salt: Uint8Array | null = null;
+
+	constructor(vaultName: string) {
+		this.storageKey = `knowledge-expander-secrets:${vaultName}`;
+	}
+
+	isKeychainAvailable(): boolean {
+		return getSafeStorage() !== null;
+	}
+
+	/** Whether keys were saved to the keychain on this device, readable or not. */
+	hasKeychainData(): boolean {
+		return window.localStorage.getItem(this.storageKey) !== null;
+	}
+
+	loadFromKeychain(): Secrets {
+		const safeStorage = getSafeStorage();
+		const stored = window.localStorage.getItem(this.storageKey);
+		if (!safeStorage || !stored) {
+			return {};
+		}
+		try {
+			return JSON.parse(safeStorage.decryptString(Buffer.from(stored, 'base64')));
+		} catch (error) {
+			console.error('Could not read API keys from the keychain:', error);
+			return {};
+		}
+	}
+
+	saveToKeychain(secrets: Secrets): void {
+		const safeStorage = getSafeStorage();
+		if (!safeStorage) {
+			throw new Error('The system keychain is not available on this device');
+		}
+		if (Object.keys(secrets).length === 0) {
+			window.localStorage.removeItem(this.storageKey);
+			return;
+		}
+		window.localStorage.setItem(this.storageKey, safeStorage.encryptString(JSON.stringify(secrets)).toString('base64'));
+	}
+
+	clearKeychain(): void {
+		window.localStorage.removeItem(this.storageKey);
+	}
+
+	isUnlocked(): boolean {
+		return this.passphraseKey !== null;
+	}
+
+	/** Derives the key from `passphrase` and decrypts `encrypted`. Throws when the passphrase is wrong. */
+	async unlock(passphrase: string, encrypted: EncryptedSecrets): Promise<Secrets> {
+		const salt = fromBase64(encrypted.salt);
+		const key = await deriveKey(passphrase, salt);
+		const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+		const secrets = JSON.parse(new TextDecoder().decode(data));
+		this.passphraseKey = key;
+		this.salt = salt;
+		return secrets;
+	}
+
+	/** Replaces the passphrase; the secrets are encrypted with the new one on the next save. */
+	async setPassphrase(passphrase: string): Promise<void> {
+		this.salt = crypto.getRandomValues(new Uint8Array(16));
+		this.passphraseKey = await deriveKey(passphrase, this.salt);
+	}
+
+	async encrypt(secrets: Secrets): Promise<EncryptedSecrets> {
+		if (!this.passphraseKey || !this.salt) {
+			throw new Error('API keys are locked');
+		}
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.passphraseKey, new TextEncoder().encode(JSON.stringify(secrets)));
+		return { salt: toBase64(this.salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+	}
+}
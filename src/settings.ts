@@ -1,62 +1,54 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import { MAX_COMPARED_MODELS } from './comparison-view';
+import { CONTEXT_MODE_NAMES, ContextMode } from './context-builder';
+import { getPromptStrings, getUILocale, LANGUAGE_NAMES, Locale, OutputLanguage } from './i18n';
 import KnowledgeExpanderPlugin from './main';
-import { PRICING_PER_MILLION_TOKENS } from './types';
-
-type OpenAIModel = keyof typeof PRICING_PER_MILLION_TOKENS.openai;
-type GeminiModel = keyof typeof PRICING_PER_MILLION_TOKENS.gemini;
-type ClaudeModel = keyof typeof PRICING_PER_MILLION_TOKENS.claude;
+import { CatalogJsonModal, ModelEditModal } from './model-catalog-modal';
+import { createProfileId, ProfileEditModal } from './profile-modal';
+import { AIProviderDefinition, getModelCatalog, getProvider, getProviderConfig, getProviders, parseModelCatalog, ProviderModel, ProviderSettingField, setProviderConfigValue } from './providers';
+import { findInvalidPatterns, REDACTION_DETECTORS } from './redaction';
+import { getEnvReference } from './secret-store';
+import { KnowledgeExpanderSettings, ModelChoice, PromptProfile } from './types';
+import { BudgetMode } from './usage-ledger';
 
 function formatCost(input: number, output: number): string {
 	return `$${input}/${output} per 1M tokens`;
 }
 
-function getOpenAIModelLabel(model: OpenAIModel): string {
-	const pricing = PRICING_PER_MILLION_TOKENS.openai[model];
-	const labels: Record<OpenAIModel, string> = {
-		'gpt-5.2': 'GPT-5.2',
-		'gpt-5.2-pro': 'GPT-5.2 Pro',
-		'gpt-5.1': 'GPT-5.1',
-		'gpt-5': 'GPT-5',
-		'gpt-5-mini': 'GPT-5 Mini',
-		'gpt-5-nano': 'GPT-5 Nano',
-		'gpt-5-pro': 'GPT-5 Pro',
-		'gpt-4.1': 'GPT-4.1',
-		'gpt-4.1-mini': 'GPT-4.1 Mini',
-		'gpt-4.1-nano': 'GPT-4.1 Nano',
-		'gpt-4o': 'GPT-4o',
-		'gpt-4o-mini': 'GPT-4o Mini',
-		'o3': 'o3',
-		'o3-pro': 'o3 Pro',
-		'o4-mini': 'o4 Mini',
-		'o1': 'o1',
-		'o1-pro': 'o1 Pro',
-		'o1-mini': 'o1 Mini',
-	};
-	return `${labels[model]} (${formatCost(pricing.input, pricing.output)})`;
+function getModelLabel(model: ProviderModel): string {
+	if (!model.pricing) {
+		return `${model.label} (unknown cost)`;
+	}
+	return `${model.label} (${formatCost(model.pricing.input, model.pricing.output)})`;
 }
 
-function getGeminiModelLabel(model: GeminiModel): string {
-	const pricing = PRICING_PER_MILLION_TOKENS.gemini[model];
-	const labels: Record<GeminiModel, string> = {
-		'gemini-1.5-flash': 'Gemini 1.5 Flash',
-		'gemini-1.5-pro': 'Gemini 1.5 Pro',
-		'gemini-2.0-flash': 'Gemini 2.0 Flash',
-	};
-	return `${labels[model]} (${formatCost(pricing.input, pricing.output)})`;
+function describeModel(model: ProviderModel): string {
+	const parts = [model.id];
+	if (model.pricing) {
+		parts.push(formatCost(model.pricing.input, model.pricing.output));
+		if (model.pricing.cachedInput !== undefined) {
+			parts.push(`cached input $${model.pricing.cachedInput}`);
+		}
+	} else {
+		parts.push('unknown cost');
+	}
+	if (model.contextWindow) {
+		parts.push(`${model.contextWindow.toLocaleString()} token context`);
+	}
+	return parts.join(' · ');
 }
 
-function getClaudeModelLabel(model: ClaudeModel): string {
-	const pricing = PRICING_PER_MILLION_TOKENS.claude[model];
-	const labels: Record<ClaudeModel, string> = {
-		'claude-3-5-sonnet-20241022': 'Claude 3.5 Sonnet',
-		'claude-3-opus-20240229': 'Claude 3 Opus',
-		'claude-3-haiku-20240307': 'Claude 3 Haiku',
-	};
-	return `${labels[model]} (${formatCost(pricing.input, pricing.output)})`;
+/** The names of required fields the provider has no value for. An environment variable reference counts as a value. */
+function getMissingFields(settings: KnowledgeExpanderSettings, provider: AIProviderDefinition): string[] {
+	const config = getProviderConfig(settings, provider.id);
+	return provider.settings.filter(field => field.required && !config[field.key]).map(field => field.name);
 }
 
 export class KnowledgeExpanderSettingTab extends PluginSettingTab {
 	plugin: KnowledgeExpanderPlugin;
+	private discoveredModels: Record<string, string[]> = {};
+	/** Provider sections opened by the user, kept open when the settings are redrawn. */
+	private openProviders = new Set<string>();
 
 	constructor(app: App, plugin: KnowledgeExpanderPlugin) {
 		super(app, plugin);
@@ -72,121 +64,139 @@ export class KnowledgeExpanderSettingTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName('AI Provider')
 			.setDesc('Select the AI provider to use for knowledge expansion')
-			.addDropdown(dropdown => dropdown
-				.addOption('openai', 'OpenAI (ChatGPT)')
-				.addOption('gemini', 'Google Gemini')
-				.addOption('claude', 'Anthropic Claude')
-				.setValue(this.plugin.settings.aiProvider)
-				.onChange(async (value: 'openai' | 'gemini' | 'claude') => {
-					this.plugin.settings.aiProvider = value;
+			.addDropdown(dropdown => {
+				getProviders().forEach(provider => {
+					dropdown.addOption(provider.id, provider.name);
+				});
+				dropdown.setValue(this.plugin.settings.aiProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.aiProvider = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Stream responses')
+			.setDesc('Show the answer in a live preview pane while it is being generated. The note is created once the response is complete.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streamResponses)
+				.onChange(async (value) => {
+					this.plugin.settings.streamResponses = value;
 					await this.plugin.saveSettings();
-					this.display();
 				}));
 
-		if (this.plugin.settings.aiProvider === 'openai') {
-			containerEl.createEl('h3', { text: 'OpenAI Settings' });
-			
-			new Setting(containerEl)
-				.setName('OpenAI API Key')
-				.setDesc('Your OpenAI API key')
-				.addText(text => text
-					.setPlaceholder('sk-...')
-					.setValue(this.plugin.settings.openaiApiKey)
+		new Setting(containerEl)
+			.setName('Concurrent expansions')
+			.setDesc('How many expansions may run at the same time. Additional requests wait in the queue shown in the status bar.')
+			.addSlider(slider => slider
+				.setLimits(1, 5, 1)
+				.setValue(this.plugin.settings.maxConcurrentJobs)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxConcurrentJobs = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Request timeout')
+			.setDesc('Seconds to wait for the provider before giving up. For streamed answers, the longest pause between chunks. 0 waits indefinitely.')
+			.addText(text => {
+				text
+					.setPlaceholder('120')
+					.setValue(`${this.plugin.settings.requestTimeout}`)
 					.onChange(async (value) => {
-						this.plugin.settings.openaiApiKey = value;
+						this.plugin.settings.requestTimeout = Math.max(0, parseInt(value) || 0);
 						await this.plugin.saveSettings();
-					}));
+					});
+				text.inputEl.type = 'number';
+			});
 
-			new Setting(containerEl)
-				.setName('OpenAI Model (Expand Knowledge)')
-				.setDesc('Model for knowledge expansion. Cost shown as input/output per 1M tokens.')
-				.addDropdown(dropdown => {
-					const models: OpenAIModel[] = ['gpt-5.2', 'gpt-5.2-pro', 'gpt-5.1', 'gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-5-pro', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'gpt-4o', 'gpt-4o-mini', 'o3', 'o3-pro', 'o4-mini', 'o1', 'o1-pro', 'o1-mini'];
-					models.forEach(model => {
-						dropdown.addOption(model, getOpenAIModelLabel(model));
-					});
-					dropdown.setValue(this.plugin.settings.openaiModel)
-						.onChange(async (value) => {
-							this.plugin.settings.openaiModel = value;
-							await this.plugin.saveSettings();
-						});
-				});
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How often a request is retried after a rate limit, timeout, network or server error, waiting longer each time.')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.maxRetries)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
 
-			new Setting(containerEl)
-				.setName('OpenAI Model (Web Search)')
-				.setDesc('Model for web search. Cost shown as input/output per 1M tokens.')
-				.addDropdown(dropdown => {
-					const models: OpenAIModel[] = ['gpt-5.2', 'gpt-5.2-pro', 'gpt-5.1', 'gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-5-pro', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'gpt-4o', 'gpt-4o-mini', 'o3', 'o3-pro', 'o4-mini', 'o1', 'o1-pro', 'o1-mini'];
-					models.forEach(model => {
-						dropdown.addOption(model, getOpenAIModelLabel(model));
-					});
-					dropdown.setValue(this.plugin.settings.openaiWebSearchModel)
-						.onChange(async (value) => {
-							this.plugin.settings.openaiWebSearchModel = value;
-							await this.plugin.saveSettings();
-						});
-				});
-		}
+		this.displayKeyStorage(containerEl);
+		this.displayRedaction(containerEl);
 
-		if (this.plugin.settings.aiProvider === 'gemini') {
-			containerEl.createEl('h3', { text: 'Google Gemini Settings' });
-			
-			new Setting(containerEl)
-				.setName('Gemini API Key')
-				.setDesc('Your Google Gemini API key')
-				.addText(text => text
-					.setPlaceholder('API key')
-					.setValue(this.plugin.settings.geminiApiKey)
+		this.displayProviders(containerEl);
+
+		containerEl.createEl('h3', { text: 'Fallback Models' });
+		this.displayModelChoices(containerEl, 'fallbackChain', 'When the provider is down, rate limited, out of quota or missing its key, these models are tried in order. Models whose provider lacks web search or structured output are skipped for requests that need them. Each provider uses the key set in its own settings.');
+
+		new Setting(containerEl)
+			.setName('Fall back from local to remote models')
+			.setDesc('When a local OpenAI-compatible server fails, also try the fallback models of cloud providers. This sends the prompt off this machine. When off, only other local models are tried.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.allowRemoteFallback)
+				.onChange(async (value) => {
+					this.plugin.settings.allowRemoteFallback = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Model Comparison' });
+		this.displayModelChoices(containerEl, 'comparisonModels', `The "Compare models" command sends the same prompt to each of these models at once and shows the answers side by side. Choose two or three.`, MAX_COMPARED_MODELS);
+
+		containerEl.createEl('h3', { text: 'Budget Settings' });
+
+		new Setting(containerEl)
+			.setName('Daily budget (USD)')
+			.setDesc('Spending limit per day across all expansions. Set to 0 for no limit.')
+			.addText(text => {
+				text
+					.setPlaceholder('0')
+					.setValue(`${this.plugin.settings.dailyBudget}`)
 					.onChange(async (value) => {
-						this.plugin.settings.geminiApiKey = value;
+						this.plugin.settings.dailyBudget = Math.max(0, parseFloat(value) || 0);
 						await this.plugin.saveSettings();
-					}));
-
-			new Setting(containerEl)
-				.setName('Gemini Model')
-				.setDesc('Model for knowledge expansion. Cost shown as input/output per 1M tokens.')
-				.addDropdown(dropdown => {
-					const models: GeminiModel[] = ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'];
-					models.forEach(model => {
-						dropdown.addOption(model, getGeminiModelLabel(model));
-					});
-					dropdown.setValue(this.plugin.settings.geminiModel)
-						.onChange(async (value) => {
-							this.plugin.settings.geminiModel = value;
-							await this.plugin.saveSettings();
-						});
-				});
-		}
+					});
+				text.inputEl.type = 'number';
+			});
 
-		if (this.plugin.settings.aiProvider === 'claude') {
-			containerEl.createEl('h3', { text: 'Anthropic Claude Settings' });
-			
-			new Setting(containerEl)
-				.setName('Claude API Key')
-				.setDesc('Your Anthropic Claude API key')
-				.addText(text => text
-					.setPlaceholder('sk-ant-...')
-					.setValue(this.plugin.settings.claudeApiKey)
+		new Setting(containerEl)
+			.setName('Monthly budget (USD)')
+			.setDesc('Spending limit per calendar month. Set to 0 for no limit.')
+			.addText(text => {
+				text
+					.setPlaceholder('0')
+					.setValue(`${this.plugin.settings.monthlyBudget}`)
 					.onChange(async (value) => {
-						this.plugin.settings.claudeApiKey = value;
+						this.plugin.settings.monthlyBudget = Math.max(0, parseFloat(value) || 0);
 						await this.plugin.saveSettings();
-					}));
+					});
+				text.inputEl.type = 'number';
+			});
 
-			new Setting(containerEl)
-				.setName('Claude Model')
-				.setDesc('Model for knowledge expansion. Cost shown as input/output per 1M tokens.')
-				.addDropdown(dropdown => {
-					const models: ClaudeModel[] = ['claude-3-5-sonnet-20241022', 'claude-3-opus-20240229', 'claude-3-haiku-20240307'];
-					models.forEach(model => {
-						dropdown.addOption(model, getClaudeModelLabel(model));
-					});
-					dropdown.setValue(this.plugin.settings.claudeModel)
-						.onChange(async (value) => {
-							this.plugin.settings.claudeModel = value;
-							await this.plugin.saveSettings();
-						});
-				});
-		}
+		new Setting(containerEl)
+			.setName('When a budget would be exceeded')
+			.setDesc('The check uses the request\'s worst-case cost before it is sent.')
+			.addDropdown(dropdown => dropdown
+				.addOption('warn', 'Warn and continue')
+				.addOption('block', 'Block the request')
+				.setValue(this.plugin.settings.budgetMode)
+				.onChange(async (value: BudgetMode) => {
+					this.plugin.settings.budgetMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Usage history')
+			.setDesc(`${this.plugin.usageLedger.getRecords().length} requests recorded.`)
+			.addButton(button => button
+				.setButtonText('Clear history')
+				.setWarning()
+				.onClick(async () => {
+					await this.plugin.usageLedger.clear();
+					this.display();
+				}));
 
 		containerEl.createEl('h3', { text: 'Note Settings' });
 
@@ -201,14 +211,173 @@ export class KnowledgeExpanderSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Detect Existing Notes')
+			.setDesc('Before expanding, look for an earlier expansion note on the same concept (by title, alias or original text) and offer to append to it, merge into it or link to it.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.detectExistingNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.detectExistingNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Related Notes in Prompt')
+			.setDesc('How many related vault notes (found by links, tags and keywords) to include as excerpts, so the AI links to them instead of repeating them. 0 turns this off.')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.relatedNotesCount)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.relatedNotesCount = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayVaultIndex(containerEl);
+
+		containerEl.createEl('h3', { text: 'Batch Expansion' });
+
+		new Setting(containerEl)
+			.setName('Custom Term Pattern')
+			.setDesc('Regular expression for more terms to offer in "Expand terms in this note", next to unresolved links, highlights and bold text. When it has a capture group, the group is the term. Leave empty to use only the built-in kinds.')
+			.addText(text => text
+				.setPlaceholder('\\b([A-Z]{2,})\\b')
+				.setValue(this.plugin.settings.batchPattern)
+				.onChange(async (value) => {
+					this.plugin.settings.batchPattern = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Delay Between Requests')
+			.setDesc('Seconds to wait between the terms of a batch, to stay under the provider\'s rate limits.')
+			.addSlider(slider => slider
+				.setLimits(0, 30, 1)
+				.setValue(this.plugin.settings.batchDelay)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.batchDelay = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Deep Dive' });
+
+		new Setting(containerEl)
+			.setName('Depth')
+			.setDesc('Levels of concepts to expand below the selected text. 1 expands only the concepts of the first note.')
+			.addSlider(slider => slider
+				.setLimits(1, 4, 1)
+				.setValue(this.plugin.settings.deepDiveDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.deepDiveDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Concepts per Note')
+			.setDesc('How many key concepts of each note are expanded into notes of their own. The model\'s suggested related concepts are used first, then extracted keywords.')
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setValue(this.plugin.settings.deepDiveBreadth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.deepDiveBreadth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Budget per Deep Dive (USD)')
+			.setDesc('A deep dive stops expanding when its next request could go over this amount. Set to 0 for no limit besides the daily and monthly budgets.')
+			.addText(text => {
+				text
+					.setPlaceholder('0.5')
+					.setValue(`${this.plugin.settings.deepDiveBudget}`)
+					.onChange(async (value) => {
+						this.plugin.settings.deepDiveBudget = Math.max(0, parseFloat(value) || 0);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+			});
+
 		containerEl.createEl('h3', { text: 'Prompt Settings' });
 
+		new Setting(containerEl)
+			.setName('Output Language')
+			.setDesc('Language of the generated notes. Auto writes in the language of the selected text.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('auto', 'Auto (match selection)');
+				(Object.keys(LANGUAGE_NAMES) as Locale[]).forEach(locale => dropdown.addOption(locale, LANGUAGE_NAMES[locale]));
+				dropdown
+					.setValue(this.plugin.settings.outputLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.outputLanguage = value as OutputLanguage;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Structured Output')
+			.setDesc('Ask the model for a JSON object with the title, body, tags, aliases and related concepts, which fill the note\'s frontmatter. Only the body is streamed into the preview. Web search always uses plain text.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.structuredOutput)
+				.onChange(async (value) => {
+					this.plugin.settings.structuredOutput = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Context Mode')
+			.setDesc('How much of the note around the selection is sent with it. Prompt profiles can choose their own.')
+			.addDropdown(dropdown => {
+				(Object.keys(CONTEXT_MODE_NAMES) as ContextMode[]).forEach(mode => dropdown.addOption(mode, CONTEXT_MODE_NAMES[mode]));
+				dropdown
+					.setValue(this.plugin.settings.contextMode)
+					.onChange(async (value: ContextMode) => {
+						this.plugin.settings.contextMode = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.contextMode === 'lines') {
+			new Setting(containerEl)
+				.setName('Context Lines')
+				.setDesc('Lines above and below the selection to include.')
+				.addSlider(slider => slider
+					.setLimits(0, 50, 1)
+					.setValue(this.plugin.settings.contextLines)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.contextLines = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Context Token Budget')
+			.setDesc('Most tokens of context to send, in every mode. The context is also shortened when the prompt would not fit in the model\'s context window.')
+			.addText(text => {
+				text
+					.setPlaceholder('2000')
+					.setValue(`${this.plugin.settings.contextTokenBudget}`)
+					.onChange(async (value) => {
+						this.plugin.settings.contextTokenBudget = Math.max(0, parseInt(value) || 0);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+			});
+
+		const outputLanguage = this.plugin.settings.outputLanguage;
+		const builtInPrompts = getPromptStrings(outputLanguage === 'auto' ? getUILocale() : outputLanguage);
+
 		new Setting(containerEl)
 			.setName('System Prompt')
-			.setDesc('The prompt used to generate knowledge expansion. Use this to customize the AI\'s response style.')
+			.setDesc('The prompt used to generate knowledge expansion. Use this to customize the AI\'s response style. Leave empty to use the built-in prompt for the output language.')
 			.addTextArea(text => {
 				text
-					.setPlaceholder('Enter your system prompt...')
+					.setPlaceholder(builtInPrompts.systemPrompt)
 					.setValue(this.plugin.settings.systemPrompt)
 					.onChange(async (value) => {
 						this.plugin.settings.systemPrompt = value;
@@ -218,15 +387,609 @@ export class KnowledgeExpanderSettingTab extends PluginSettingTab {
 				text.inputEl.cols = 50;
 			});
 
+		new Setting(containerEl)
+			.setName('Web Search Prompt')
+			.setDesc('Instructions for web search. The title instruction, selected text and context are added after it. Leave empty to use the built-in prompt for the output language.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder(builtInPrompts.webSearchPrompt)
+					.setValue(this.plugin.settings.webSearchPrompt)
+					.onChange(async (value) => {
+						this.plugin.settings.webSearchPrompt = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 8;
+				text.inputEl.cols = 50;
+			});
+
 		new Setting(containerEl)
 			.setName('Output Template Path')
-			.setDesc('Path to a template file for the generated notes. The template can include {{content}} placeholder for AI response.')
-			.addText(text => text
-				.setPlaceholder('templates/knowledge-template.md')
-				.setValue(this.plugin.settings.templatePath)
+			.setDesc('Path to a template file for the generated notes. Variables: {{content}}, {{title}}, {{selection}}, {{source}}, {{question}}, {{tags}}, {{aliases}}, {{related}}, {{model}}, {{cost}}, {{tokens}}, {{date:YYYY-MM-DD}}, {{citations}} and {{frontmatter}}. Blocks: {{#if x}}…{{else}}…{{/if}}, {{#unless x}}…{{/unless}} and {{#each citations}}[{{title}}]({{url}}){{/each}}. The generated frontmatter is merged into the template\'s own unless {{frontmatter}} is used, and values in the template\'s frontmatter are quoted as YAML needs.')
+			.addText(text => {
+				text
+					.setPlaceholder('templates/knowledge-template.md')
+					.setValue(this.plugin.settings.templatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.templatePath = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.addEventListener('change', () => this.plugin.checkTemplate(text.getValue().trim()));
+			});
+
+		new Setting(containerEl)
+			.setName('Run Templater')
+			.setDesc('Let the Templater plugin process its <% %> commands in each new note. Does nothing when Templater is not installed.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useTemplater)
+				.onChange(async (value) => {
+					this.plugin.settings.useTemplater = value;
+					await this.plugin.saveSettings();
+				}));
+	
+		this.displayPromptProfiles(containerEl);
+	}
+
+	private displayKeyStorage(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'API Key Storage' });
+
+		const plugin = this.plugin;
+		const mode = plugin.getSecretStorageMode();
+		new Setting(containerEl)
+			.setName('Store API keys')
+			.setDesc('The plugin data may be synced or shared, so API keys are kept out of it. The system keychain keeps them on this device only, so each device needs its own keys. A passphrase keeps them encrypted in the plugin data, so they sync with the vault.')
+			.addDropdown(dropdown => {
+				if (plugin.secretStore.isKeychainAvailable()) {
+					dropdown.addOption('keychain', 'System keychain');
+				}
+				dropdown.addOption('passphrase', 'Encrypted with a passphrase');
+				dropdown.setValue(mode)
+					.onChange(async (value) => {
+						dropdown.setValue(mode);
+						if (plugin.needsUnlock()) {
+							new Notice('Unlock the API keys first, so they can be moved');
+						} else if (value === 'passphrase') {
+							plugin.promptNewPassphrase(() => this.display());
+						} else {
+							plugin.settings.secretStorage = 'keychain';
+							await plugin.saveSettings();
+							this.display();
+						}
+					});
+			});
+
+		if (mode !== 'passphrase') {
+			return;
+		}
+
+		if (plugin.isKeychainMissing()) {
+			containerEl.createEl('p', {
+				text: '⚠️ The system keychain is not available in this version of Obsidian or on this device, so API keys are encrypted with a passphrase instead.',
+				cls: 'setting-item-description',
+			});
+		}
+
+		const status = new Setting(containerEl).setName('Passphrase');
+		if (plugin.needsUnlock()) {
+			status
+				.setDesc('🔒 Locked. Keys entered now are only saved once the keys are unlocked.')
+				.addButton(button => button
+					.setButtonText('Unlock')
+					.setCta()
+					.onClick(() => plugin.promptUnlock(() => this.display())));
+		} else if (plugin.secretStore.isUnlocked()) {
+			status
+				.setDesc('🔓 Unlocked for this session.')
+				.addButton(button => button
+					.setButtonText('Change passphrase')
+					.onClick(() => plugin.promptNewPassphrase(() => this.display())));
+		} else {
+			status
+				.setDesc(plugin.keepsUnsavedSecrets()
+					? '⚠️ No passphrase is set, so API keys entered here are kept for this session only. Set one to save them encrypted.'
+					: plugin.storesPlaintextSecrets()
+						? '⚠️ API keys saved by an earlier version are still in plain text. Set a passphrase to encrypt them.'
+						: 'Set a passphrase before entering API keys, so they are saved encrypted.')
+				.addButton(button => button
+					.setButtonText('Set passphrase')
+					.setCta()
+					.onClick(() => plugin.promptNewPassphrase(() => this.display())));
+		}
+	}
+
+	private displayRedaction(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Redaction' });
+
+		const settings = this.plugin.settings;
+		new Setting(containerEl)
+			.setName('Redact sensitive text')
+			.setDesc('Replaces the values below with placeholders such as [EMAIL_1] before anything is sent to a provider, including related notes and the vault index, and puts them back in the generated note. The expansion prompt shows what will be sent.')
+			.addToggle(toggle => toggle
+				.setValue(settings.redactionEnabled)
 				.onChange(async (value) => {
-					this.plugin.settings.templatePath = value;
+					settings.redactionEnabled = value;
 					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!settings.redactionEnabled) {
+			return;
+		}
+
+		for (const detector of REDACTION_DETECTORS) {
+			new Setting(containerEl)
+				.setName(detector.name)
+				.addToggle(toggle => toggle
+					.setValue(settings.redactionDetectors.includes(detector.id))
+					.onChange(async (value) => {
+						settings.redactionDetectors = settings.redactionDetectors.filter(id => id !== detector.id);
+						if (value) {
+							settings.redactionDetectors.push(detector.id);
+						}
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Terms')
+			.setDesc('One per line, such as project codenames or customer names. Matched anywhere, ignoring case.')
+			.addTextArea(text => {
+				text
+					.setValue(settings.redactionTerms.join('\n'))
+					.onChange(async (value) => {
+						settings.redactionTerms = value.split('\n').map(term => term.trim()).filter(term => term);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+				text.inputEl.cols = 50;
+			});
+
+		const patternsDesc = 'One regular expression per line; every match is redacted.';
+		const patterns = new Setting(containerEl)
+			.setName('Patterns')
+			.setDesc(patternsDesc);
+		patterns.addTextArea(text => {
+			text
+				.setPlaceholder('\\bPRJ-\\d+\\b')
+				.setValue(settings.redactionPatterns.join('\n'))
+				.onChange(async (value) => {
+					settings.redactionPatterns = value.split('\n').filter(pattern => pattern.trim());
+					const invalid = findInvalidPatterns(settings.redactionPatterns);
+					patterns.setDesc(invalid.length > 0 ? `⚠️ Not valid, so ignored: ${invalid.join(', ')}` : patternsDesc);
+					await this.plugin.saveSettings();
+				});
+			text.inputEl.rows = 4;
+			text.inputEl.cols = 50;
+		});
+	}
+
+	private displayVaultIndex(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Vault Index' });
+
+		const settings = this.plugin.settings;
+		new Setting(containerEl)
+			.setName('Index Vault')
+			.setDesc('Keep a full-text index of the vault for finding related notes. It is built in the background after startup and updated as notes change, and saved in the plugin folder with excerpts of the notes. Turning it off deletes it.')
+			.addToggle(toggle => toggle
+				.setValue(settings.vaultIndexEnabled)
+				.onChange(async (value) => {
+					settings.vaultIndexEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!settings.vaultIndexEnabled) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Embeddings')
+			.setDesc('Also rank notes by meaning with embeddings from this provider. Each note is sent to the provider once, and again when it changes. Use an OpenAI-compatible local endpoint to keep notes on this machine.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Off (full-text only)');
+				getProviders()
+					.filter(provider => provider.embeddings)
+					.forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown
+					.setValue(settings.embeddingProvider)
+					.onChange(async (value) => {
+						settings.embeddingProvider = value;
+						settings.embeddingModel = '';
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		const embeddingProvider = getProvider(settings.embeddingProvider);
+		if (embeddingProvider?.embeddings) {
+			new Setting(containerEl)
+				.setName('Embedding Model')
+				.setDesc('Changing the model re-embeds the whole vault.')
+				.addText(text => text
+					.setPlaceholder(embeddingProvider.embeddings?.defaultModel ?? '')
+					.setValue(settings.embeddingModel)
+					.onChange(async (value) => {
+						settings.embeddingModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Index Status')
+			.setDesc(this.plugin.vaultIndex.getStatus())
+			.addButton(button => button
+				.setButtonText('Rebuild')
+				.onClick(async () => {
+					await this.plugin.vaultIndex.rebuild();
+					this.display();
+				}));
+	}
+
+	/**
+	 * An ordered, editable list of provider/model pairs, stored under `key`.
+	 * No more than `limit` pairs can be added.
+	 */
+	private displayModelChoices(containerEl: HTMLElement, key: 'fallbackChain' | 'comparisonModels', desc: string, limit: number = Infinity): void {
+		const settings = this.plugin.settings;
+		const choices = settings[key];
+		const saveChoices = async (updated: ModelChoice[]) => {
+			settings[key] = updated;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+		const move = (index: number, offset: number) => {
+			const updated = [...choices];
+			[updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+			saveChoices(updated);
+		};
+
+		choices.forEach((entry, index) => {
+			const provider = getProvider(entry.provider);
+			const setting = new Setting(containerEl)
+				.setName(`${index + 1}. ${provider?.name ?? entry.provider}`);
+
+			const catalog = getModelCatalog(settings, entry.provider);
+			if (provider && !provider.modelDiscovery && catalog.length > 0) {
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', 'Configured model');
+					catalog.forEach(model => dropdown.addOption(model.id, getModelLabel(model)));
+					if (entry.model && !catalog.some(model => model.id === entry.model)) {
+						dropdown.addOption(entry.model, `${entry.model} (not in catalog)`);
+					}
+					dropdown.setValue(entry.model)
+						.onChange(async (value) => {
+							entry.model = value;
+							await this.plugin.saveSettings();
+						});
+				});
+			} else {
+				setting.addText(text => text
+					.setPlaceholder('Configured model')
+					.setValue(entry.model)
+					.onChange(async (value) => {
+						entry.model = value.trim();
+						await this.plugin.saveSettings();
+					}));
+			}
+
+			setting
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => {
+						if (index > 0) {
+							move(index, -1);
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === choices.length - 1)
+					.onClick(() => {
+						if (index < choices.length - 1) {
+							move(index, 1);
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(() => {
+						saveChoices(choices.filter((_, i) => i !== index));
+					}));
+		});
+
+		const addSetting = new Setting(containerEl).setDesc(desc);
+		if (choices.length < limit) {
+			addSetting.addDropdown(dropdown => {
+				dropdown.addOption('', 'Add a model...');
+				getProviders().forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown.onChange(async (value) => {
+					if (value) {
+						await saveChoices([...choices, { provider: value, model: '' }]);
+					}
+				});
+			});
+		}
+	}
+
+	private displayPromptProfiles(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Prompt Profiles' });
+
+		const settings = this.plugin.settings;
+		const saveProfiles = async (profiles: PromptProfile[]) => {
+			settings.promptProfiles = profiles;
+			await this.plugin.saveSettings();
+			this.plugin.registerProfileCommands();
+			this.display();
+		};
+
+		settings.promptProfiles.forEach((profile, index) => {
+			const overrides = [
+				profile.provider && `provider: ${getProvider(profile.provider)?.name ?? profile.provider}`,
+				profile.model && `model: ${profile.model}`,
+				profile.notePath && `folder: ${profile.notePath}`,
+				profile.templatePath && `template: ${profile.templatePath}`,
+				profile.contextMode && `context: ${CONTEXT_MODE_NAMES[profile.contextMode]}`,
+			].filter(Boolean);
+
+			new Setting(containerEl)
+				.setName(profile.name)
+				.setDesc(overrides.length > 0 ? overrides.join(' · ') : 'Uses the global provider, folder and template')
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit profile')
+					.onClick(() => {
+						new ProfileEditModal(this.app, profile, (updated) => {
+							const profiles = [...settings.promptProfiles];
+							profiles[index] = { ...updated, id: profile.id };
+							saveProfiles(profiles);
+							this.plugin.checkTemplate(updated.templatePath);
+						}).open();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove profile')
+					.onClick(() => {
+						saveProfiles(settings.promptProfiles.filter((_, i) => i !== index));
+					}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Each profile can be picked in the expand prompt and gets its own "Expand selected text: <name>" command.')
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(() => {
+					new ProfileEditModal(this.app, null, (profile) => {
+						saveProfiles([...settings.promptProfiles, { ...profile, id: createProfileId(profile.name, settings.promptProfiles) }]);
+						this.plugin.checkTemplate(profile.templatePath);
+					}).open();
+				}));
+	}
+
+	/**
+	 * Every provider's settings, each in a section of its own, since fallback
+	 * and comparison models need the keys of other providers than the active
+	 * one. The active provider's section, and those of providers a fallback or
+	 * comparison model needs but that are missing a required field, start open.
+	 */
+	private displayProviders(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Providers' });
+
+		const settings = this.plugin.settings;
+		const used = new Set(settings.fallbackChain.concat(settings.comparisonModels).map(choice => choice.provider));
+		for (const provider of getProviders()) {
+			const missing = getMissingFields(settings, provider);
+			const active = provider.id === settings.aiProvider;
+			const details = containerEl.createEl('details');
+			details.open = this.openProviders.has(provider.id) || active || (used.has(provider.id) && missing.length > 0);
+			details.addEventListener('toggle', () => {
+				if (details.open) {
+					this.openProviders.add(provider.id);
+				} else {
+					this.openProviders.delete(provider.id);
+				}
+			});
+
+			const summary = details.createEl('summary', { text: provider.name });
+			if (active) {
+				summary.appendText(' (active)');
+			} else if (used.has(provider.id)) {
+				summary.appendText(' (used as a fallback or comparison model)');
+			}
+			if (missing.length > 0 && (active || used.has(provider.id))) {
+				summary.appendText(` ⚠️ ${missing.join(', ')} not set`);
+			}
+
+			this.displayProviderSettings(details, provider);
+			if (!provider.modelDiscovery) {
+				this.displayModelCatalog(details, provider);
+			}
+		}
+
+		this.displayCatalogTransfer(containerEl);
+	}
+
+	private displayProviderSettings(containerEl: HTMLElement, provider: AIProviderDefinition): void {
+		const config = getProviderConfig(this.plugin.settings, provider.id);
+		for (const field of provider.settings) {
+			const setting = new Setting(containerEl)
+				.setName(field.name)
+				.setDesc(field.desc);
+
+			const save = async (value: string) => {
+				setProviderConfigValue(this.plugin.settings, provider.id, field.key, value);
+				await this.plugin.saveSettings();
+			};
+
+			if (field.type === 'model' && provider.modelDiscovery) {
+				this.addDiscoveredModelSetting(setting, provider, field, config[field.key], save);
+			} else if (field.type === 'model') {
+				setting.addDropdown(dropdown => {
+					const catalog = getModelCatalog(this.plugin.settings, provider.id);
+					catalog.forEach(model => {
+						dropdown.addOption(model.id, getModelLabel(model));
+					});
+					if (config[field.key] && !catalog.some(model => model.id === config[field.key])) {
+						dropdown.addOption(config[field.key], `${config[field.key]} (not in catalog)`);
+					}
+					dropdown.setValue(config[field.key])
+						.onChange(save);
+				});
+			} else {
+				setting.addText(text => {
+					text
+						.setPlaceholder(field.placeholder ?? '')
+						.setValue(config[field.key])
+						.onChange(save);
+					if (field.type === 'number') {
+						text.inputEl.type = 'number';
+						text.inputEl.min = '0';
+						text.inputEl.step = 'any';
+					}
+					if (field.type === 'secret') {
+						text.inputEl.type = 'password';
+						// Without a keychain or a passphrase the key would only last this session.
+						text.inputEl.addEventListener('change', () => {
+							const value = text.getValue();
+							if (value && getEnvReference(value) === null && !this.plugin.canSaveSecrets() && !this.plugin.needsUnlock()) {
+								new Notice('🔒 Set a passphrase to save this API key');
+								this.plugin.promptNewPassphrase(() => this.display());
+							}
+						});
+						setting.setDesc(`${field.desc.replace(/\.$/, '')}. Enter $NAME to read it from the environment variable NAME instead.`);
+						setting.addExtraButton(button => button
+							.setIcon('eye')
+							.setTooltip('Show or hide')
+							.onClick(() => {
+								text.inputEl.type = text.inputEl.type === 'password' ? 'text' : 'password';
+							}));
+					}
+				});
+			}
+		}
+	}
+
+	private addDiscoveredModelSetting(setting: Setting, provider: AIProviderDefinition, field: ProviderSettingField, value: string, save: (value: string) => Promise<void>): void {
+		const discovered = this.discoveredModels[provider.id];
+		if (discovered && discovered.length > 0) {
+			setting.addDropdown(dropdown => {
+				dropdown.addOption('', 'Choose a model...');
+				discovered.forEach(model => {
+					dropdown.addOption(model, model);
+				});
+				dropdown.setValue(discovered.includes(value) ? value : '')
+					.onChange(async (model) => {
+						if (model) {
+							await save(model);
+							this.display();
+						}
+					});
+			});
+		}
+
+		setting
+			.addText(text => text
+				.setPlaceholder(field.placeholder ?? '')
+				.setValue(value)
+				.onChange(save))
+			.addExtraButton(button => button
+				.setIcon('refresh-cw')
+				.setTooltip('Fetch available models')
+				.onClick(async () => {
+					try {
+						this.discoveredModels[provider.id] = await this.plugin.aiService.listModels(provider.id);
+						new Notice(`Found ${this.discoveredModels[provider.id].length} models`);
+						this.display();
+					} catch (error) {
+						console.error('Model discovery error:', error);
+						new Notice(`❌ Could not list models: ${error.message}`);
+					}
+				}));
+	}
+
+	private displayModelCatalog(containerEl: HTMLElement, provider: AIProviderDefinition): void {
+		containerEl.createEl('h4', { text: 'Model Catalog' });
+
+		const settings = this.plugin.settings;
+		const catalog = getModelCatalog(settings, provider.id);
+		const saveCatalogs = async (catalogs: Record<string, ProviderModel[]>) => {
+			settings.modelCatalog = { ...settings.modelCatalog, ...catalogs };
+			await this.plugin.saveSettings();
+			this.display();
+		};
+		const saveCatalog = (models: ProviderModel[]) => saveCatalogs({ [provider.id]: models });
+
+		catalog.forEach((model, index) => {
+			new Setting(containerEl)
+				.setName(model.label)
+				.setDesc(describeModel(model))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit model')
+					.onClick(() => {
+						new ModelEditModal(this.app, model, (updated) => {
+							const models = [...catalog];
+							models[index] = updated;
+							saveCatalog(models);
+						}).open();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove model')
+					.onClick(() => {
+						saveCatalog(catalog.filter((_, i) => i !== index));
+					}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Models offered in the dropdowns above, with the prices used for cost estimates.')
+			.addButton(button => button
+				.setButtonText('Add model')
+				.onClick(() => {
+					new ModelEditModal(this.app, null, (model) => {
+						saveCatalog([...catalog.filter(m => m.id !== model.id), model]);
+					}).open();
+				}))
+			.addButton(button => button
+				.setButtonText('Reset to defaults')
+				.onClick(async () => {
+					const { [provider.id]: _removed, ...rest } = settings.modelCatalog;
+					settings.modelCatalog = rest;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private displayCatalogTransfer(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		const saveCatalogs = async (catalogs: Record<string, ProviderModel[]>) => {
+			settings.modelCatalog = { ...settings.modelCatalog, ...catalogs };
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		new Setting(containerEl)
+			.setName('Import / export catalog')
+			.setDesc('Share model catalogs for all providers as JSON.')
+			.addButton(button => button
+				.setButtonText('Export')
+				.onClick(() => {
+					const all: Record<string, ProviderModel[]> = {};
+					getProviders()
+						.filter(p => !p.modelDiscovery)
+						.forEach(p => {
+							all[p.id] = getModelCatalog(settings, p.id);
+						});
+					new CatalogJsonModal(this.app, JSON.stringify(all, null, 2), null).open();
+				}))
+			.addButton(button => button
+				.setButtonText('Import')
+				.onClick(() => {
+					new CatalogJsonModal(this.app, '', (json) => {
+						const imported = parseModelCatalog(json);
+						saveCatalogs(imported);
+						new Notice(`Imported models for ${Object.keys(imported).length} providers`);
+					}).open();
 				}));
 	}
 }
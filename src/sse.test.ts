@@ -0,0 +1,53 @@
+import { readServerSentEvents, ServerSentEvent } from './sse';
+
+/** A response whose body yields `chunks`, split wherever the test likes. */
+function responseOf(chunks: string[]): Response {
+	const encoder = new TextEncoder();
+	let index = 0;
+	return {
+		body: {
+			getReader: () => ({
+				read: async () => index < chunks.length
+					? { done: false, value: encoder.encode(chunks[index++]) }
+					: { done: true, value: undefined },
+			}),
+		},
+	} as unknown as Response;
+}
+
+async function read(chunks: string[]): Promise<ServerSentEvent[]> {
+	const events: ServerSentEvent[] = [];
+	await readServerSentEvents(responseOf(chunks), event => events.push(event));
+	return events;
+}
+
+describe('readServerSentEvents', () => {
+	it('reads events split anywhere across chunks', async () => {
+		expect(await read(['event: de', 'lta\ndata: {"a"', ':1}\n', '\ndata: [DONE]\n\n'])).toEqual([
+			{ event: 'delta', data: '{"a":1}' },
+			{ event: 'message', data: '[DONE]' },
+		]);
+	});
+
+	it('joins multi-line data and skips comments', async () => {
+		expect(await read([': keep-alive\n', 'data: one\ndata: two\n\n'])).toEqual([{ event: 'message', data: 'one\ntwo' }]);
+	});
+
+	it('handles CRLF line endings, including one split between chunks', async () => {
+		expect(await read(['data: x\r', '\n\r\n'])).toEqual([{ event: 'message', data: 'x' }]);
+	});
+
+	it('dispatches a last event that is not followed by a blank line', async () => {
+		expect(await read(['data: end'])).toEqual([{ event: 'message', data: 'end' }]);
+	});
+
+	it('keeps a multi-byte character split between chunks', async () => {
+		const bytes = new TextEncoder().encode('data: 한\n\n');
+		const events: ServerSentEvent[] = [];
+		let index = 0;
+		const parts = [bytes.slice(0, 7), bytes.slice(7)];
+		const response = { body: { getReader: () => ({ read: async () => index < parts.length ? { done: false, value: parts[index++] } : { done: true } }) } };
+		await readServerSentEvents(response as unknown as Response, event => events.push(event));
+		expect(events).toEqual([{ event: 'message', data: '한' }]);
+	});
+});
@@ -0,0 +1,65 @@
+export interface ServerSentEvent {
+	event: string;
+	data: string;
+}
+
+export async function readServerSentEvents(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+	if (!response.body) {
+		throw new Error('Streaming is not supported in this environment');
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder('utf-8');
+	let buffer = '';
+	let eventName = '';
+	let dataLines: string[] = [];
+
+	const dispatch = () => {
+		if (dataLines.length > 0) {
+			onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+		}
+		eventName = '';
+		dataLines = [];
+	};
+
+	const processLine = (line: string) => {
+		if (line === '') {
+			dispatch();
+			return;
+		}
+		if (line.startsWith(':')) {
+			return;
+		}
+
+		const colonIndex = line.indexOf(':');
+		const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+		let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+		if (value.startsWith(' ')) {
+			value = value.slice(1);
+		}
+
+		if (field === 'event') {
+			eventName = value;
+		} else if (field === 'data') {
+			dataLines.push(value);
+		}
+	};
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split(/\r\n|\r|\n/);
+		buffer = lines.pop() ?? '';
+		lines.forEach(processLine);
+	}
+
+	buffer += decoder.decode();
+	if (buffer) {
+		processLine(buffer);
+	}
+	dispatch();
+}
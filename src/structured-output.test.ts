@@ -0,0 +1,39 @@
+import { parseStructuredExpansion, streamJsonField } from './structured-output';
+
+describe('parseStructuredExpansion', () => {
+	it('reads the fields, even inside a code fence', () => {
+		const text = '```json\n{"title":" T ","body":"B","tags":["a","a"," b ",3],"aliases":"x","related":[]}\n```';
+		expect(parseStructuredExpansion(text)).toEqual({ title: 'T', body: 'B', tags: ['a', 'b'], aliases: [], related: [] });
+	});
+
+	it('returns null for text that is not an expansion object', () => {
+		expect(parseStructuredExpansion('# Plain markdown')).toBeNull();
+		expect(parseStructuredExpansion('{"title":"T"}')).toBeNull();
+	});
+});
+
+describe('streamJsonField', () => {
+	const stream = (json: string, size: number) => {
+		let text = '';
+		const onChunk = streamJsonField('body', chunk => text += chunk);
+		for (let i = 0; i < json.length; i += size) {
+			onChunk(json.slice(i, i + size));
+		}
+		return text;
+	};
+
+	it('passes on the decoded field however the object is split', () => {
+		const json = JSON.stringify({ title: 'not "body": "this"', body: 'Line\n"quoted" \\ é☃ 😀', tags: [] });
+		for (const size of [1, 2, 3, 5, 8, 1000]) {
+			expect(stream(json, size)).toBe(JSON.parse(json).body);
+		}
+	});
+
+	it('decodes \\u escapes cut off at the end of a chunk', () => {
+		expect(stream('{"body":"\\u00e9\\n"}', 4)).toBe('é\n');
+	});
+
+	it('passes on nothing when the field never appears', () => {
+		expect(stream('{"title":"only"}', 3)).toBe('');
+	});
+});
@@ -0,0 +1,120 @@
+import { ResponseSchema } from './providers';
+
+/** The fields of an expansion returned in structured output mode. */
+export interface StructuredExpansion {
+	title: string;
+	body: string;
+	tags: string[];
+	aliases: string[];
+	related: string[];
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+export const EXPANSION_SCHEMA: ResponseSchema = {
+	name: 'knowledge_expansion',
+	description: 'A knowledge expansion note for the selected text',
+	schema: {
+		type: 'object',
+		properties: {
+			title: { type: 'string', description: 'Concise title summarising the note' },
+			body: { type: 'string', description: 'The explanation in markdown, without the title' },
+			tags: { ...stringArray, description: 'Up to 5 short tags for the note, without #' },
+			aliases: { ...stringArray, description: 'Other names or spellings of the selected concept' },
+			related: { ...stringArray, description: 'Up to 5 closely related concepts worth their own note' },
+		},
+		required: ['title', 'body', 'tags', 'aliases', 'related'],
+		additionalProperties: false,
+	},
+};
+
+function toStringArray(value: unknown): string[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return Array.from(new Set(value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)));
+}
+
+/**
+ * Parses a response written against `EXPANSION_SCHEMA`. Returns `null` when
+ * the text is not such an object, so the caller can fall back to plain text.
+ */
+export function parseStructuredExpansion(text: string): StructuredExpansion | null {
+	const json = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+	let data: any;
+	try {
+		data = JSON.parse(json);
+	} catch (error) {
+		return null;
+	}
+	if (!data || typeof data !== 'object' || typeof data.body !== 'string') {
+		return null;
+	}
+
+	return {
+		title: typeof data.title === 'string' ? data.title.trim() : '',
+		body: data.body.trim(),
+		tags: toStringArray(data.tags),
+		aliases: toStringArray(data.aliases),
+		related: toStringArray(data.related),
+	};
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Follows a JSON object as it streams in and passes on the text of its string
+ * field `key` as far as it has arrived, so a structured response can be shown
+ * while it is written. An escape cut off at the end of a chunk waits for the
+ * next one.
+ */
+export function streamJsonField(key: string, onText: (text: string) => void): (chunk: string) => void {
+	const start = new RegExp(`"${key}"\\s*:\\s*"`);
+	let raw = '';
+	// Where the next undecoded character of the field is, once it has started.
+	let position = -1;
+	let done = false;
+
+	return (chunk: string) => {
+		if (done) {
+			return;
+		}
+		raw += chunk;
+		if (position < 0) {
+			const match = start.exec(raw);
+			if (!match) {
+				return;
+			}
+			position = match.index + match[0].length;
+		}
+
+		let text = '';
+		while (position < raw.length) {
+			const char = raw[position];
+			if (char === '"') {
+				done = true;
+				break;
+			}
+			if (char !== '\\') {
+				text += char;
+				position++;
+				continue;
+			}
+			const escape = raw[position + 1];
+			if (escape === undefined || (escape === 'u' && position + 6 > raw.length)) {
+				break;
+			}
+			if (escape === 'u') {
+				text += String.fromCharCode(parseInt(raw.slice(position + 2, position + 6), 16));
+				position += 6;
+			} else {
+				text += JSON_ESCAPES[escape] ?? escape;
+				position += 2;
+			}
+		}
+		if (text) {
+			onText(text);
+		}
+	};
+}
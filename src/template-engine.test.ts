@@ -0,0 +1,62 @@
+import { parseYaml } from 'obsidian';
+import { findTemplateError, mergeFrontMatter, renderTemplate } from './template-engine';
+
+const now = new Date(2024, 0, 2, 3, 4);
+
+describe('renderTemplate', () => {
+	it('fills in variables, dates and blocks', () => {
+		const template = '{{title}} {{date}} {{time:HH}}{{#if tags}} [{{tags}}]{{/if}}{{#unless question}} -{{/unless}}{{#each citations}}\n{{@number}}. {{title}}{{else}} none{{/each}}';
+		expect(renderTemplate(template, { title: 'T', tags: ['a', 'b'], question: '', citations: [{ title: 'One' }, { title: 'Two' }] }, now))
+			.toBe('T 2024-01-02 03 [a, b] -\n1. One\n2. Two');
+		expect(renderTemplate('{{#each citations}}x{{else}}none{{/each}}', { citations: [] }, now)).toBe('none');
+	});
+
+	it('leaves unknown variables for other template plugins', () => {
+		expect(renderTemplate('{{unknown}} <% tp.date.now() %>', {}, now)).toBe('{{unknown}} <% tp.date.now() %>');
+	});
+
+	it('prints a list of objects as a bulleted list of their text', () => {
+		expect(renderTemplate('{{citations}}', { citations: [{ text: '[A](a)' }, { text: '[B](b)' }] }, now)).toBe('- [A](a)\n- [B](b)');
+	});
+
+	it('keeps frontmatter valid for values with YAML syntax in them', () => {
+		const value = '- a: "b" #c \'d\'';
+		const template = '---\ntitle: {{title}}\nquoted: "{{title}}"\nsingle: \'{{title}}\'\ntokens: {{tokens}}\naliases:\n  - {{title}}\n---\n# {{title}}\n';
+		const rendered = renderTemplate(template, { title: value, tokens: 12 }, now);
+		expect(parseYaml(rendered.split('---\n')[1])).toEqual({ title: value, quoted: value, single: value, tokens: 12, aliases: [value] });
+		expect(rendered.endsWith(`# ${value}\n`)).toBe(true);
+	});
+
+	it('throws on unknown and unclosed blocks', () => {
+		expect(() => renderTemplate('{{#with x}}{{/with}}', {}, now)).toThrow('Unknown template block');
+		expect(() => renderTemplate('{{#if x}}', {}, now)).toThrow('Unclosed');
+		expect(() => renderTemplate('{{#if x}}{{/each}}', {}, now)).toThrow('Unexpected');
+	});
+});
+
+describe('findTemplateError', () => {
+	it('describes what is wrong, or returns null', () => {
+		expect(findTemplateError('{{#each list}}')).toBe('Unclosed "{{#each}}" in template');
+		expect(findTemplateError('{{#if a}}ok{{/if}}')).toBeNull();
+	});
+});
+
+describe('mergeFrontMatter', () => {
+	const generated = '---\ntitle: Generated\ntags:\n  - ai\nsource: "[[Note]]"\n---';
+
+	it('puts the generated frontmatter in front of a note without one', () => {
+		expect(mergeFrontMatter('Body', generated)).toBe(`${generated}\n\nBody`);
+	});
+
+	it('keeps the note\'s keys and their order, adds the missing ones after and joins the tags', () => {
+		const merged = mergeFrontMatter('---\ntags:\n  - mine\ntitle: Mine\n---\nBody', generated);
+		const yaml = merged.split('---\n')[1];
+		expect(Object.keys(parseYaml(yaml))).toEqual(['tags', 'title', 'source']);
+		expect(parseYaml(yaml)).toEqual({ tags: ['mine', 'ai'], title: 'Mine', source: '[[Note]]' });
+		expect(merged.endsWith('---\nBody')).toBe(true);
+	});
+
+	it('throws when the note\'s frontmatter is not valid YAML', () => {
+		expect(() => mergeFrontMatter('---\ntitle: a: b\n---\nBody', generated)).toThrow();
+	});
+});
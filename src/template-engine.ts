@@ -0,0 +1,248 @@
+import { moment, parseYaml, stringifyYaml } from 'obsidian';
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateValue[] | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateNode =
+	| { type: 'text'; text: string }
+	| { type: 'variable'; expression: string; raw: string; yaml: YamlPosition }
+	| { type: 'if'; expression: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+	| { type: 'each'; expression: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface Block {
+	node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+	inElse: boolean;
+}
+
+/**
+ * Where a variable sits in the template's frontmatter, which decides how its
+ * value is escaped: as a whole value, inside double or single quotes, or
+ * elsewhere (and outside the frontmatter), where it is inserted as it is.
+ */
+type YamlPosition = 'value' | 'double' | 'single' | null;
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+
+export const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+function yamlPosition(template: string, start: number, end: number, frontMatterEnd: number): YamlPosition {
+	if (end > frontMatterEnd) {
+		return null;
+	}
+	const before = template.slice(template.lastIndexOf('\n', start - 1) + 1, start);
+	const lineEnd = template.indexOf('\n', end);
+	const after = template.slice(end, lineEnd < 0 ? undefined : lineEnd).replace(/\r$/, '');
+	if (/^\s*(?:[^\s:#][^:#]*:|-)\s*$/.test(before) && !after.trim()) {
+		return 'value';
+	}
+	if (before.endsWith('"') && after.startsWith('"')) {
+		return 'double';
+	}
+	if (before.endsWith("'") && after.startsWith("'")) {
+		return 'single';
+	}
+	return null;
+}
+
+/**
+ * Parses `{{variable}}`, `{{date:FORMAT}}`, `{{#if x}}…{{else}}…{{/if}}`,
+ * `{{#unless x}}…{{/unless}}` and `{{#each list}}…{{/each}}` into a tree.
+ */
+function parse(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: Block[] = [];
+	const current = (): TemplateNode[] => {
+		const block = stack[stack.length - 1];
+		if (!block) {
+			return root;
+		}
+		return block.inElse ? block.node.otherwise : block.node.body;
+	};
+
+	const frontMatterEnd = template.match(FRONT_MATTER_PATTERN)?.[0].length ?? 0;
+	let last = 0;
+	let match: RegExpExecArray | null;
+	TAG_PATTERN.lastIndex = 0;
+	while ((match = TAG_PATTERN.exec(template)) !== null) {
+		if (match.index > last) {
+			current().push({ type: 'text', text: template.slice(last, match.index) });
+		}
+		last = TAG_PATTERN.lastIndex;
+
+		const [raw, marker, body] = match;
+		if (marker === '#') {
+			const [keyword, ...rest] = body.split(/\s+/);
+			const expression = rest.join(' ');
+			if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+				throw new Error(`Unknown template block "{{#${keyword}}}"`);
+			}
+			const node: Block['node'] = keyword === 'each'
+				? { type: 'each', expression, body: [], otherwise: [] }
+				: { type: 'if', expression, negate: keyword === 'unless', body: [], otherwise: [] };
+			current().push(node);
+			stack.push({ node, inElse: false });
+		} else if (marker === '/') {
+			const block = stack.pop();
+			const expected = block && (block.node.type === 'each' ? 'each' : block.node.negate ? 'unless' : 'if');
+			if (!block || expected !== body) {
+				throw new Error(`Unexpected "{{/${body}}}" in template`);
+			}
+		} else if (body === 'else' && stack.length > 0) {
+			stack[stack.length - 1].inElse = true;
+		} else {
+			current().push({ type: 'variable', expression: body, raw, yaml: yamlPosition(template, match.index, TAG_PATTERN.lastIndex, frontMatterEnd) });
+		}
+	}
+
+	if (stack.length > 0) {
+		const open = stack[stack.length - 1].node;
+		throw new Error(`Unclosed "{{#${open.type === 'if' && open.negate ? 'unless' : open.type}}}" in template`);
+	}
+	if (last < template.length) {
+		root.push({ type: 'text', text: template.slice(last) });
+	}
+	return root;
+}
+
+function lookup(scopes: TemplateContext[], expression: string): TemplateValue {
+	const path = expression.split('.');
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		if (path[0] in scopes[i]) {
+			let value: TemplateValue = scopes[i][path[0]];
+			for (const key of path.slice(1)) {
+				value = isObject(value) ? value[key] : undefined;
+			}
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function isObject(value: TemplateValue): value is { [key: string]: TemplateValue } {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** An object prints as its `text` field when it has one, and a list of objects as a bulleted list. */
+function stringify(value: TemplateValue): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		if (value.length > 0 && value.every(isObject)) {
+			return value.map(item => `- ${stringify(item)}`).join('\n');
+		}
+		return value.map(stringify).join(', ');
+	}
+	if (isObject(value)) {
+		return typeof value.text === 'string' ? value.text : JSON.stringify(value);
+	}
+	return `${value}`;
+}
+
+/** Writes a value into frontmatter so that titles or selections with `:`, `#`, quotes or a leading `-` stay valid YAML. */
+function escapeYaml(value: TemplateValue, position: YamlPosition): string {
+	const text = stringify(value);
+	switch (position) {
+		case 'value':
+			return typeof value === 'number' || typeof value === 'boolean' ? text : JSON.stringify(text);
+		case 'double':
+			return JSON.stringify(text).slice(1, -1);
+		case 'single':
+			return text.replace(/'/g, "''").replace(/\r?\n/g, ' ');
+		default:
+			return text;
+	}
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[], now: Date): string {
+	let result = '';
+	for (const node of nodes) {
+		switch (node.type) {
+			case 'text':
+				result += node.text;
+				break;
+			case 'variable': {
+				const dateMatch = node.expression.match(/^(date|time)(?::(.+))?$/);
+				if (dateMatch) {
+					result += moment(now).format(dateMatch[2] || (dateMatch[1] === 'date' ? 'YYYY-MM-DD' : 'HH:mm'));
+					break;
+				}
+				const value = lookup(scopes, node.expression);
+				// Unknown variables are left for other template plugins to fill in.
+				result += value === undefined ? node.raw : escapeYaml(value, node.yaml);
+				break;
+			}
+			case 'if': {
+				const truthy = isTruthy(lookup(scopes, node.expression)) !== node.negate;
+				result += renderNodes(truthy ? node.body : node.otherwise, scopes, now);
+				break;
+			}
+			case 'each': {
+				const list = lookup(scopes, node.expression);
+				if (!Array.isArray(list) || list.length === 0) {
+					result += renderNodes(node.otherwise, scopes, now);
+					break;
+				}
+				list.forEach((item, index) => {
+					const scope: TemplateContext = { this: item, '@index': index, '@number': index + 1 };
+					if (isObject(item)) {
+						Object.assign(scope, item);
+					}
+					result += renderNodes(node.body, [...scopes, scope], now);
+				});
+				break;
+			}
+		}
+	}
+	return result;
+}
+
+/** Throws when the template has an unknown or unclosed block. */
+export function renderTemplate(template: string, context: TemplateContext, now: Date = new Date()): string {
+	return renderNodes(parse(template), [context], now);
+}
+
+/** What is wrong with the template's blocks, or `null` when it can be rendered. */
+export function findTemplateError(template: string): string | null {
+	try {
+		parse(template);
+		return null;
+	} catch (error) {
+		return error.message;
+	}
+}
+
+/**
+ * Adds the generated frontmatter to a rendered note. Throws when the note's
+ * own frontmatter is not valid YAML. When the note has its
+ * own frontmatter, its keys win and keep their order, and the generated ones
+ * only fill in what is missing after them; tags from both are kept.
+ */
+export function mergeFrontMatter(note: string, generated: string): string {
+	const noteMatch = note.match(FRONT_MATTER_PATTERN);
+	if (!noteMatch) {
+		return `${generated}\n\n${note}`;
+	}
+
+	const generatedMatch = generated.match(FRONT_MATTER_PATTERN);
+	const own = parseYaml(noteMatch[1]) || {};
+	const added = generatedMatch ? parseYaml(generatedMatch[1]) || {} : {};
+
+	const merged: Record<string, unknown> = { ...own };
+	for (const key of Object.keys(added)) {
+		if (!(key in merged)) {
+			merged[key] = added[key];
+		}
+	}
+	if (Array.isArray(own.tags) && Array.isArray(added.tags)) {
+		merged.tags = Array.from(new Set([...own.tags, ...added.tags]));
+	}
+
+	const yaml = stringifyYaml(merged);
+	return `---\n${yaml.endsWith('\n') ? yaml : `${yaml}\n`}---\n${note.slice(noteMatch[0].length)}`;
+}
@@ -0,0 +1,26 @@
+const CJK_PATTERN = /[ᄀ-ᇿ぀-ヿ㄰-㆏㐀-䶿一-鿿가-힯]/g;
+
+/**
+ * Rough token count without a tokenizer: CJK characters are about one token
+ * each, other text about four characters per token. Errs on the high side.
+ */
+export function estimateTokens(text: string): number {
+	const cjkCount = (text.match(CJK_PATTERN) || []).length;
+	const otherCount = text.length - cjkCount;
+	return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/** Cuts `text` at a line break so `estimateTokens` of the result is at most `maxTokens`. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+	if (estimateTokens(text) <= maxTokens) {
+		return text;
+	}
+	const lines = text.split('\n');
+	let tokens = 0;
+	let count = 0;
+	while (count < lines.length && tokens + estimateTokens(lines[count]) + 1 <= maxTokens) {
+		tokens += estimateTokens(lines[count]) + 1;
+		count++;
+	}
+	return lines.slice(0, count).join('\n');
+}
@@ -0,0 +1,212 @@
+import { requestUrl } from 'obsidian';
+import { classifyHttpError, HttpRequest, invalidResponseError, ProviderError } from './providers';
+import { readServerSentEvents, ServerSentEvent } from './sse';
+
+export interface TransportOptions {
+	/** Used in error messages. */
+	providerName: string;
+	/** Milliseconds; 0 waits indefinitely. For streams it is the longest gap between events. */
+	timeout: number;
+	maxRetries: number;
+	signal?: AbortSignal;
+}
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+function cancelledError(): DOMException {
+	return new DOMException('Request was cancelled', 'AbortError');
+}
+
+function isAbortError(error: any): boolean {
+	return error?.name === 'AbortError';
+}
+
+function networkError(providerName: string, error: any): ProviderError {
+	const detail = error?.message ? ` (${error.message})` : '';
+	return new ProviderError('network', `Could not reach ${providerName}. Check your internet connection or the endpoint URL.${detail}`);
+}
+
+function timeoutError(options: TransportOptions): ProviderError {
+	return new ProviderError('timeout', `${options.providerName} did not respond within ${Math.round(options.timeout / 1000)} seconds. Try again, or raise the request timeout in the plugin settings.`);
+}
+
+/** Exponential backoff with jitter, unless the provider said how long to wait. */
+function retryDelay(retry: number, retryAfter?: number): number {
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, MAX_RETRY_DELAY);
+	}
+	const delay = BASE_RETRY_DELAY * Math.pow(2, retry);
+	return Math.min(delay + Math.random() * delay / 2, MAX_RETRY_DELAY);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(cancelledError());
+			return;
+		}
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(cancelledError());
+		};
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+async function withRetries<T>(options: TransportOptions, attempt: () => Promise<T>): Promise<T> {
+	for (let retry = 0; ; retry++) {
+		try {
+			return await attempt();
+		} catch (error) {
+			if (!(error instanceof ProviderError) || !error.retryable || retry >= options.maxRetries || options.signal?.aborted) {
+				throw error;
+			}
+			const delay = retryDelay(retry, error.retryAfter);
+			console.warn(`${options.providerName}: ${error.kind}, retrying in ${Math.round(delay)} ms (${retry + 1}/${options.maxRetries})`);
+			await sleep(delay, options.signal);
+		}
+	}
+}
+
+/**
+ * `requestUrl` can be neither aborted nor timed out, so a cancelled or
+ * timed-out request is abandoned and its result discarded once it settles.
+ */
+function settle<T>(promise: Promise<T>, options: TransportOptions): Promise<T> {
+	const { signal } = options;
+	if (signal?.aborted) {
+		return Promise.reject(cancelledError());
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => done(() => reject(cancelledError()));
+		const timer = options.timeout > 0
+			? window.setTimeout(() => done(() => reject(timeoutError(options))), options.timeout)
+			: undefined;
+		let settled = false;
+		const done = (finish: () => void) => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			window.clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+			finish();
+		};
+
+		signal?.addEventListener('abort', onAbort, { once: true });
+		promise.then(
+			value => done(() => resolve(value)),
+			error => done(() => reject(error))
+		);
+	});
+}
+
+/** Sends `request` and returns the parsed JSON body, retrying transient failures. */
+export function requestJson(request: HttpRequest, options: TransportOptions): Promise<any> {
+	return withRetries(options, async () => {
+		let response;
+		try {
+			response = await settle(requestUrl({
+				url: request.url,
+				method: request.method ?? 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...request.headers,
+				},
+				body: request.body ? JSON.stringify(request.body) : undefined,
+				throw: false,
+			}), options);
+		} catch (error) {
+			throw error instanceof ProviderError || isAbortError(error) ? error : networkError(options.providerName, error);
+		}
+
+		if (response.status >= 400) {
+			console.error(`${options.providerName} request failed:`, response.status, response.text);
+			throw classifyHttpError(options.providerName, response.status, response.text, response.headers);
+		}
+
+		try {
+			return response.json;
+		} catch (error) {
+			throw invalidResponseError(`${options.providerName} did not send JSON`);
+		}
+	});
+}
+
+/**
+ * `requestUrl` buffers the whole body, so streaming goes through `fetch`
+ * and parses the server-sent events as they arrive. Failures are retried
+ * only until the first event, so no text is delivered twice.
+ */
+export function streamEvents(request: HttpRequest, options: TransportOptions, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+	return withRetries(options, async () => {
+		if (options.signal?.aborted) {
+			throw cancelledError();
+		}
+
+		const controller = new AbortController();
+		const onAbort = () => controller.abort();
+		options.signal?.addEventListener('abort', onAbort, { once: true });
+
+		let timedOut = false;
+		let timer: number | undefined;
+		const resetTimer = () => {
+			window.clearTimeout(timer);
+			if (options.timeout > 0) {
+				timer = window.setTimeout(() => {
+					timedOut = true;
+					controller.abort();
+				}, options.timeout);
+			}
+		};
+
+		let received = false;
+		try {
+			resetTimer();
+			const response = await fetch(request.url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...request.headers,
+				},
+				body: JSON.stringify(request.body),
+				signal: controller.signal,
+			});
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				console.error(`${options.providerName} streaming request failed:`, response.status, errorText);
+				throw classifyHttpError(options.providerName, response.status, errorText, {
+					'retry-after': response.headers.get('retry-after') ?? '',
+				});
+			}
+
+			await readServerSentEvents(response, (event) => {
+				resetTimer();
+				received = true;
+				onEvent(event);
+			});
+		} catch (error) {
+			let failure = error;
+			if (timedOut) {
+				failure = timeoutError(options);
+			} else if (!received && error instanceof TypeError) {
+				// fetch reports connection failures as a TypeError.
+				failure = networkError(options.providerName, error);
+			}
+			if (received && failure instanceof ProviderError) {
+				failure.retryable = false;
+			}
+			throw failure;
+		} finally {
+			window.clearTimeout(timer);
+			options.signal?.removeEventListener('abort', onAbort);
+		}
+	});
+}
@@ -1,71 +1,226 @@
-export type AIProvider = 'openai' | 'gemini' | 'claude';
+import { ContextMode } from './context-builder';
+import { OutputLanguage } from './i18n';
+import { ProviderModel } from './providers/types';
+import { RedactionDetector } from './redaction';
+import { SecretStorageMode } from './secret-store';
+import { BudgetMode } from './usage-ledger';
+
+/** Id of a provider registered in `providers/index.ts`. */
+export type AIProvider = string;
+
+/**
+ * A named expansion mode. Empty overrides fall back to the global settings.
+ */
+/** The default profile without a prompt of its own: it uses the system prompt, as expanding without a profile does. */
+export const BACKGROUND_PROFILE_ID = 'background';
+
+export interface PromptProfile {
+	id: string;
+	name: string;
+	/** Empty in a default profile uses its built-in prompt for the output language. */
+	prompt: string;
+	provider: AIProvider;
+	model: string;
+	notePath: string;
+	templatePath: string;
+	/** Empty uses the global context mode. */
+	contextMode: ContextMode | '';
+}
+
+/** A provider and one of its models. An empty `model` uses the provider's configured model. */
+export interface ModelChoice {
+	provider: AIProvider;
+	model: string;
+}
 
 export interface KnowledgeExpanderSettings {
 	aiProvider: AIProvider;
-	openaiApiKey: string;
-	openaiModel: string;
-	openaiWebSearchModel: string;
-	geminiApiKey: string;
-	geminiModel: string;
-	claudeApiKey: string;
-	claudeModel: string;
+	providers: Record<AIProvider, Record<string, string>>;
+	/** Secret fields are kept out of the saved `providers` unless no passphrase is set where the keychain is unavailable. */
+	secretStorage: SecretStorageMode;
+	/** Per-provider model lists edited by the user; providers without an entry use their built-in models. */
+	modelCatalog: Record<AIProvider, ProviderModel[]>;
 	notePath: string;
+	detectExistingNotes: boolean;
+	/** Existing notes whose excerpts go into the prompt; 0 turns retrieval off. */
+	relatedNotesCount: number;
+	contextMode: ContextMode;
+	/** Lines above and below the selection in the `lines` context mode. */
+	contextLines: number;
+	/** Most tokens of surrounding context sent with a selection, in any mode. */
+	contextTokenBudget: number;
+	/** Regular expression for extra batch expansion terms; a capture group, when present, is the term. */
+	batchPattern: string;
+	/** Seconds to wait between the requests of a batch expansion. */
+	batchDelay: number;
+	/** Levels of concepts expanded below the selected one in a deep dive. */
+	deepDiveDepth: number;
+	/** Concepts expanded from each note of a deep dive. */
+	deepDiveBreadth: number;
+	/** USD a single deep dive may spend; 0 means only the daily and monthly budgets apply. */
+	deepDiveBudget: number;
+	vaultIndexEnabled: boolean;
+	/** Provider whose embeddings the vault index uses; empty means full-text only. */
+	embeddingProvider: string;
+	/** Empty uses the provider's default embedding model. */
+	embeddingModel: string;
+	/** Empty uses the built-in prompt for the output language. */
 	systemPrompt: string;
+	/** Empty uses the built-in prompt for the output language. */
+	webSearchPrompt: string;
+	outputLanguage: OutputLanguage;
+	structuredOutput: boolean;
+	promptProfiles: PromptProfile[];
 	templatePath: string;
+	useTemplater: boolean;
+	streamResponses: boolean;
+	maxConcurrentJobs: number;
+	/** Seconds a request may wait for the provider; 0 waits indefinitely. */
+	requestTimeout: number;
+	maxRetries: number;
+	/** Models tried in order when the resolved one fails. */
+	fallbackChain: ModelChoice[];
+	/** Lets a failed request to a local provider fall back to remote ones, sending the prompt off this machine. */
+	allowRemoteFallback: boolean;
+	comparisonModels: ModelChoice[];
+	/** Replaces sensitive values in prompts with placeholders and restores them in the answers. */
+	redactionEnabled: boolean;
+	redactionDetectors: RedactionDetector[];
+	redactionPatterns: string[];
+	redactionTerms: string[];
+	dailyBudget: number;
+	monthlyBudget: number;
+	budgetMode: BudgetMode;
 }
 
 export const DEFAULT_SETTINGS: KnowledgeExpanderSettings = {
 	aiProvider: 'openai',
-	openaiApiKey: '',
-	openaiModel: 'gpt-4o',
-	openaiWebSearchModel: 'gpt-4o-mini',
-	geminiApiKey: '',
-	geminiModel: 'gemini-1.5-flash',
-	claudeApiKey: '',
-	claudeModel: 'claude-3-5-sonnet-20241022',
+	providers: {},
+	secretStorage: 'keychain',
+	modelCatalog: {},
 	notePath: '',
-	systemPrompt: `이 내용을 파악하기 위해 알아야 하는 배경지식과 추가적인 정보를 자세히 설명해주세요. 1000자 이내로 작성하고, md 파일의 마크다운 형태를 유지해주세요. 기본적인 소제목은 '##'를 사용하고, 최대 '###'까지만 사용합니다.`,
+	detectExistingNotes: true,
+	relatedNotesCount: 5,
+	contextMode: 'lines',
+	contextLines: 5,
+	contextTokenBudget: 2000,
+	batchPattern: '',
+	batchDelay: 3,
+	deepDiveDepth: 2,
+	deepDiveBreadth: 3,
+	deepDiveBudget: 0.5,
+	vaultIndexEnabled: false,
+	embeddingProvider: '',
+	embeddingModel: '',
+	systemPrompt: '',
+	webSearchPrompt: '',
+	outputLanguage: 'auto',
+	structuredOutput: false,
+	promptProfiles: [
+		{
+			id: BACKGROUND_PROFILE_ID,
+			name: 'Background explainer',
+			prompt: '',
+			provider: '',
+			model: '',
+			notePath: '',
+			templatePath: '',
+			contextMode: '',
+		},
+		{
+			id: 'eli5',
+			name: 'ELI5',
+			prompt: '',
+			provider: '',
+			model: '',
+			notePath: '',
+			templatePath: '',
+			contextMode: '',
+		},
+		{
+			id: 'counter-arguments',
+			name: 'Counter-arguments',
+			prompt: '',
+			provider: '',
+			model: '',
+			notePath: '',
+			templatePath: '',
+			contextMode: '',
+		},
+		{
+			id: 'timeline',
+			name: 'Timeline',
+			prompt: '',
+			provider: '',
+			model: '',
+			notePath: '',
+			templatePath: '',
+			contextMode: '',
+		},
+		{
+			id: 'glossary',
+			name: 'Glossary entry',
+			prompt: '',
+			provider: '',
+			model: '',
+			notePath: '',
+			templatePath: '',
+			contextMode: '',
+		},
+	],
 	templatePath: '',
+	useTemplater: false,
+	streamResponses: true,
+	maxConcurrentJobs: 1,
+	requestTimeout: 120,
+	maxRetries: 3,
+	fallbackChain: [],
+	allowRemoteFallback: false,
+	comparisonModels: [],
+	redactionEnabled: false,
+	redactionDetectors: ['email', 'phone', 'rrn', 'card', 'secret'],
+	redactionPatterns: [],
+	redactionTerms: [],
+	dailyBudget: 0,
+	monthlyBudget: 0,
+	budgetMode: 'warn',
 };
 
+/**
+ * The stretch of the answer a citation supports. `start`/`end` are offsets
+ * into the raw completion text when the provider reports them; `text` is used
+ * to find the span when it does not.
+ */
+export interface CitationSpan {
+	text: string;
+	start?: number;
+	end?: number;
+}
+
+/** A web source returned by a provider's search grounding, normalized across providers. */
+export interface Citation {
+	url: string;
+	title: string;
+	span?: CitationSpan;
+}
+
 export interface AIResponse {
 	title: string;
 	content: string;
+	citations: Citation[];
+	/** Filled by structured output mode; empty otherwise. */
+	tags: string[];
+	aliases: string[];
+	related: string[];
+	provider: AIProvider;
+	model: string;
 	inputTokens: number;
 	outputTokens: number;
 	totalTokens: number;
-	estimatedCost: number;
+	/** `null` when the model has no price in the catalog. */
+	estimatedCost: number | null;
+	/** Set when a fallback model answered: why the models before it failed. */
+	fallbackReason?: string;
+	/** Set when a local provider failed and a remote fallback answered instead. */
+	leftLocal?: boolean;
 }
-
-export const PRICING_PER_MILLION_TOKENS = {
-	openai: {
-		'gpt-5.2': { input: 1.75, output: 14.00 },
-		'gpt-5.2-pro': { input: 21.00, output: 168.00 },
-		'gpt-5.1': { input: 1.25, output: 10.00 },
-		'gpt-5': { input: 1.25, output: 10.00 },
-		'gpt-5-mini': { input: 0.25, output: 2.00 },
-		'gpt-5-nano': { input: 0.05, output: 0.40 },
-		'gpt-5-pro': { input: 15.00, output: 120.00 },
-		'gpt-4.1': { input: 3.00, output: 12.00 },
-		'gpt-4.1-mini': { input: 0.80, output: 3.20 },
-		'gpt-4.1-nano': { input: 0.20, output: 0.80 },
-		'gpt-4o': { input: 2.50, output: 10.00 },
-		'gpt-4o-mini': { input: 0.15, output: 0.60 },
-		'o3': { input: 2.00, output: 8.00 },
-		'o3-pro': { input: 20.00, output: 80.00 },
-		'o4-mini': { input: 4.00, output: 16.00 },
-		'o1': { input: 15.00, output: 60.00 },
-		'o1-pro': { input: 150.00, output: 600.00 },
-		'o1-mini': { input: 1.10, output: 4.40 },
-	},
-	gemini: {
-		'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-		'gemini-1.5-pro': { input: 3.50, output: 10.50 },
-		'gemini-2.0-flash': { input: 0.10, output: 0.40 },
-	},
-	claude: {
-		'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
-		'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
-		'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-	},
-} as const;
@@ -0,0 +1,159 @@
+export interface UsageRecord {
+	timestamp: number;
+	provider: string;
+	model: string;
+	command: string;
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	/** `null` when the model had no price in the catalog. */
+	cost: number | null;
+	notePath: string;
+	sourcePath: string;
+}
+
+export type UsageGrouping = 'day' | 'model' | 'folder';
+
+export interface UsageSummaryRow {
+	key: string;
+	requests: number;
+	totalTokens: number;
+	cost: number;
+	/** Requests whose cost is unknown and therefore missing from `cost`. */
+	unpricedRequests: number;
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetLimits {
+	dailyBudget: number;
+	monthlyBudget: number;
+}
+
+export interface BudgetCheck {
+	exceeded: boolean;
+	message: string;
+}
+
+const MAX_RECORDS = 10000;
+
+function startOfDay(date: Date): number {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+function startOfMonth(date: Date): number {
+	return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+function formatDay(timestamp: number): string {
+	const date = new Date(timestamp);
+	const month = `${date.getMonth() + 1}`.padStart(2, '0');
+	const day = `${date.getDate()}`.padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function folderOf(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '/' : path.slice(0, index);
+}
+
+/** Thrown before a request in `block` budget mode when it would exceed a budget. */
+export class BudgetExceededError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BudgetExceededError';
+	}
+}
+
+export class UsageLedger {
+	private records: UsageRecord[];
+	private onChange: () => Promise<void>;
+
+	constructor(records: UsageRecord[], onChange: () => Promise<void>) {
+		this.records = records;
+		this.onChange = onChange;
+	}
+
+	getRecords(): UsageRecord[] {
+		return this.records;
+	}
+
+	async record(entry: UsageRecord): Promise<void> {
+		this.records.push(entry);
+		if (this.records.length > MAX_RECORDS) {
+			this.records = this.records.slice(this.records.length - MAX_RECORDS);
+		}
+		await this.onChange();
+	}
+
+	async clear(): Promise<void> {
+		this.records = [];
+		await this.onChange();
+	}
+
+	unpricedSince(timestamp: number): number {
+		return this.records.filter(r => r.timestamp >= timestamp && r.cost === null).length;
+	}
+
+	spentSince(timestamp: number): number {
+		return this.records
+			.filter(r => r.timestamp >= timestamp)
+			.reduce((sum, r) => sum + (r.cost ?? 0), 0);
+	}
+
+	spentToday(now: Date = new Date()): number {
+		return this.spentSince(startOfDay(now));
+	}
+
+	spentThisMonth(now: Date = new Date()): number {
+		return this.spentSince(startOfMonth(now));
+	}
+
+	/** Whether spending `estimatedCost` more would go over the daily or monthly budget. A budget of 0 means no limit. */
+	checkBudget(limits: BudgetLimits, estimatedCost: number, now: Date = new Date()): BudgetCheck {
+		const today = this.spentToday(now);
+		if (limits.dailyBudget > 0 && today + estimatedCost > limits.dailyBudget) {
+			return {
+				exceeded: true,
+				message: `Daily budget of $${limits.dailyBudget.toFixed(2)} would be exceeded ($${today.toFixed(4)} spent today, ~$${estimatedCost.toFixed(4)} for this request)`,
+			};
+		}
+
+		const month = this.spentThisMonth(now);
+		if (limits.monthlyBudget > 0 && month + estimatedCost > limits.monthlyBudget) {
+			return {
+				exceeded: true,
+				message: `Monthly budget of $${limits.monthlyBudget.toFixed(2)} would be exceeded ($${month.toFixed(4)} spent this month, ~$${estimatedCost.toFixed(4)} for this request)`,
+			};
+		}
+
+		return { exceeded: false, message: '' };
+	}
+
+	summarize(grouping: UsageGrouping): UsageSummaryRow[] {
+		const rows = new Map<string, UsageSummaryRow>();
+
+		for (const record of this.records) {
+			const key = grouping === 'day'
+				? formatDay(record.timestamp)
+				: grouping === 'model'
+					? `${record.provider} / ${record.model}`
+					: folderOf(record.sourcePath);
+
+			const row = rows.get(key) ?? { key, requests: 0, totalTokens: 0, cost: 0, unpricedRequests: 0 };
+			row.requests++;
+			row.totalTokens += record.totalTokens;
+			if (record.cost === null) {
+				row.unpricedRequests++;
+			} else {
+				row.cost += record.cost;
+			}
+			rows.set(key, row);
+		}
+
+		const result = Array.from(rows.values());
+		return grouping === 'day'
+			? result.sort((a, b) => b.key.localeCompare(a.key))
+			: result.sort((a, b) => b.cost - a.cost);
+	}
+}
@@ -0,0 +1,79 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import KnowledgeExpanderPlugin from './main';
+import { UsageGrouping } from './usage-ledger';
+
+export const USAGE_VIEW_TYPE = 'knowledge-expander-usage';
+
+const SECTIONS: { grouping: UsageGrouping; title: string; column: string; limit: number }[] = [
+	{ grouping: 'day', title: 'By day', column: 'Day', limit: 31 },
+	{ grouping: 'model', title: 'By model', column: 'Model', limit: 50 },
+	{ grouping: 'folder', title: 'By folder', column: 'Source folder', limit: 50 },
+];
+
+function formatCost(cost: number): string {
+	return `$${cost.toFixed(4)}`;
+}
+
+export class UsageDashboardView extends ItemView {
+	private plugin: KnowledgeExpanderPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeExpanderPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return USAGE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Knowledge Expander Usage';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen() {
+		this.refresh();
+	}
+
+	refresh(): void {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('knowledge-expander-usage');
+
+		const ledger = this.plugin.usageLedger;
+		const { dailyBudget, monthlyBudget } = this.plugin.settings;
+
+		container.createEl('h3', { text: 'Spending' });
+		const totals = container.createEl('ul');
+		totals.createEl('li', { text: `Today: ${formatCost(ledger.spentToday())}${dailyBudget > 0 ? ` of ${formatCost(dailyBudget)}` : ''}` });
+		totals.createEl('li', { text: `This month: ${formatCost(ledger.spentThisMonth())}${monthlyBudget > 0 ? ` of ${formatCost(monthlyBudget)}` : ''}` });
+		totals.createEl('li', { text: `All time: ${formatCost(ledger.spentSince(0))} over ${ledger.getRecords().length} requests` });
+		const unpriced = ledger.unpricedSince(0);
+		if (unpriced > 0) {
+			totals.createEl('li', { text: `${unpriced} requests used models with unknown cost and are not included above` });
+		}
+
+		if (ledger.getRecords().length === 0) {
+			container.createEl('p', { text: 'No usage recorded yet.' });
+			return;
+		}
+
+		for (const section of SECTIONS) {
+			container.createEl('h3', { text: section.title });
+			const table = container.createEl('table');
+			const header = table.createEl('tr');
+			[section.column, 'Requests', 'Tokens', 'Cost'].forEach(text => header.createEl('th', { text }));
+
+			for (const row of ledger.summarize(section.grouping).slice(0, section.limit)) {
+				const tr = table.createEl('tr');
+				tr.createEl('td', { text: row.key });
+				tr.createEl('td', { text: `${row.requests}` });
+				tr.createEl('td', { text: `${row.totalTokens}` });
+				tr.createEl('td', { text: row.unpricedRequests > 0 ? `${formatCost(row.cost)} + ${row.unpricedRequests} unknown` : formatCost(row.cost) });
+			}
+		}
+	}
+}
@@ -0,0 +1,606 @@
+import { App, debounce, Notice, TAbstractFile, TFile } from 'obsidian';
+import { AIService } from './ai-service';
+import { blankComments } from './expansion-source';
+import { FRONT_MATTER_PATTERN } from './template-engine';
+import { KnowledgeExpanderSettings } from './types';
+
+interface IndexedChunk {
+	heading: string;
+	/** Character offsets of the chunk in the note, for excerpts. */
+	start: number;
+	end: number;
+	length: number;
+	terms: Record<string, number>;
+}
+
+interface IndexedNote {
+	mtime: number;
+	chunks: IndexedChunk[];
+	/** One vector per note, from its title and opening text. */
+	embedding?: number[];
+}
+
+interface PersistedIndex {
+	version: number;
+	/** `provider/model` the embeddings were made with; they are dropped when it changes. */
+	embeddingModel: string;
+	notes: Record<string, IndexedNote>;
+}
+
+export interface IndexHit {
+	path: string;
+	heading: string;
+	start: number;
+	end: number;
+	score: number;
+}
+
+export interface IndexSearchOptions {
+	limit: number;
+	exclude?: string[];
+}
+
+const INDEX_VERSION = 2;
+const MAX_CHUNK_LENGTH = 1200;
+/** Notes indexed before yielding to the UI during a rebuild. */
+const BATCH_SIZE = 50;
+const EMBEDDING_BATCH_SIZE = 16;
+const EMBEDDING_DIMENSIONS = 256;
+const EMBEDDING_TEXT_LENGTH = 2000;
+/** How much the semantic similarity counts next to the normalized BM25 score. */
+const SEMANTIC_WEIGHT = 0.6;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const CJK_RUN = /[぀-ヿ㐀-䶿一-鿿가-힯ᄀ-ᇿ㄰-㆏]+/g;
+const STOPWORDS = new Set([
+	'the', 'and', 'for', 'with', 'from', 'that', 'this', 'are', 'was', 'were', 'been',
+	'have', 'has', 'had', 'not', 'but', 'you', 'your', 'its', 'into', 'than', 'then',
+]);
+
+/**
+ * Lower-cased words for Latin text and character bigrams for CJK, which has
+ * no spaces between words (Japanese) or attaches particles to them (Korean).
+ */
+export function tokenize(text: string): string[] {
+	const tokens: string[] = [];
+	for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+		const runs = word.match(CJK_RUN);
+		if (!runs) {
+			if (word.length >= 2 && !STOPWORDS.has(word)) {
+				tokens.push(word);
+			}
+			continue;
+		}
+
+		for (const run of runs) {
+			if (run.length === 1) {
+				tokens.push(run);
+			}
+			for (let i = 0; i < run.length - 1; i++) {
+				tokens.push(run.slice(i, i + 2));
+			}
+		}
+		const rest = word.replace(CJK_RUN, ' ').split(' ').filter(part => part.length >= 2);
+		tokens.push(...rest);
+	}
+	return tokens;
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+	const terms: Record<string, number> = {};
+	for (const token of tokens) {
+		terms[token] = (terms[token] || 0) + 1;
+	}
+	return terms;
+}
+
+/** Splits a note at headings, and long sections at paragraph breaks. */
+function chunkNote(content: string): { heading: string; start: number; end: number }[] {
+	const chunks: { heading: string; start: number; end: number }[] = [];
+	const frontMatter = content.match(FRONT_MATTER_PATTERN);
+	let position = frontMatter ? frontMatter[0].length : 0;
+	let start = position;
+	let heading = '';
+
+	const flush = (end: number) => {
+		if (content.slice(start, end).trim()) {
+			chunks.push({ heading, start, end });
+		}
+		start = end;
+	};
+
+	for (const line of content.slice(position).split('\n')) {
+		const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+		if (headingMatch) {
+			flush(position);
+			heading = headingMatch[1].trim();
+		} else if (!line.trim() && position - start >= MAX_CHUNK_LENGTH) {
+			flush(position);
+		}
+		position += line.length + 1;
+	}
+	flush(Math.min(position, content.length));
+
+	return chunks;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length) {
+		return 0;
+	}
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * BM25 index over note chunks, with optional per-note embeddings. It is
+ * rebuilt in small batches after startup, kept up to date from vault
+ * events and stored in its own file in the plugin folder, since `data.json`
+ * is rewritten on every settings change.
+ */
+export class VaultIndex {
+	private app: App;
+	private aiService: AIService;
+	private settings: KnowledgeExpanderSettings;
+	private storagePath: string;
+	private notes = new Map<string, IndexedNote>();
+	private documentFrequency = new Map<string, number>();
+	private chunkCount = 0;
+	private totalLength = 0;
+	private ready = false;
+	/** The build in progress, which a rebuild or restart waits for. */
+	private reconciling: Promise<void> | null = null;
+	private rebuilding = false;
+	private stopped = false;
+	/**
+	 * What the index was last set up for. The settings tab edits the same
+	 * settings object it then passes in, so changes are found against these.
+	 */
+	private enabled: boolean;
+	private embeddingKey: string;
+	private embeddingFailed = false;
+	private embedding = false;
+	private pendingPaths = new Set<string>();
+
+	private requestSave = debounce(() => this.save(), 10000, true);
+	private requestFlush = debounce(() => this.flushPending(), 2000, true);
+
+	constructor(app: App, aiService: AIService, settings: KnowledgeExpanderSettings, storagePath: string) {
+		this.app = app;
+		this.aiService = aiService;
+		this.settings = settings;
+		this.storagePath = storagePath;
+		this.enabled = settings.vaultIndexEnabled;
+		this.embeddingKey = this.embeddingModelKey(settings);
+	}
+
+	updateSettings(settings: KnowledgeExpanderSettings) {
+		const enabledChanged = settings.vaultIndexEnabled !== this.enabled;
+		const embeddingChanged = this.embeddingModelKey(settings) !== this.embeddingKey;
+		this.settings = settings;
+		this.enabled = settings.vaultIndexEnabled;
+		this.embeddingKey = this.embeddingModelKey(settings);
+		if (enabledChanged) {
+			if (settings.vaultIndexEnabled) {
+				this.start();
+			} else {
+				this.discard();
+			}
+			return;
+		}
+		if (embeddingChanged) {
+			this.embeddingFailed = false;
+			this.notes.forEach(note => delete note.embedding);
+			this.requestSave();
+			this.embedPending();
+		}
+	}
+
+	isReady(): boolean {
+		return this.ready;
+	}
+
+	getStatus(): string {
+		if (!this.settings.vaultIndexEnabled) {
+			return 'Disabled';
+		}
+		const embedded = Array.from(this.notes.values()).filter(note => note.embedding).length;
+		const embeddings = this.embeddingModelKey(this.settings) ? `, ${embedded} with embeddings` : '';
+		return `${this.ready ? 'Ready' : 'Indexing'}: ${this.notes.size} notes, ${this.chunkCount} chunks${embeddings}`;
+	}
+
+	/** Loads the stored index, then brings it up to date with the vault in the background. */
+	async start(): Promise<void> {
+		if (!this.settings.vaultIndexEnabled) {
+			return;
+		}
+		// A build from before the last stop ends at its next batch.
+		await this.reconciling;
+		this.stopped = false;
+		await this.load();
+		this.reconcile();
+	}
+
+	stop(): void {
+		this.stopped = true;
+		this.requestSave.cancel();
+		this.requestFlush.cancel();
+		if (this.notes.size > 0) {
+			this.save();
+		}
+	}
+
+	/** Stops indexing and deletes the stored index, so no note excerpts are left on disk. */
+	private async discard(): Promise<void> {
+		this.stopped = true;
+		this.requestSave.cancel();
+		this.requestFlush.cancel();
+		this.clearIndex();
+		// A build in progress ends at its next batch; it must not write the index back.
+		await this.reconciling;
+		this.clearIndex();
+		try {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(this.storagePath)) {
+				await adapter.remove(this.storagePath);
+			}
+		} catch (error) {
+			console.error('Could not delete the vault index:', error);
+		}
+	}
+
+	/** Starts over from an empty index, once a build in progress has finished. Does nothing while a rebuild is already waiting. */
+	async rebuild(): Promise<void> {
+		if (this.rebuilding) {
+			return;
+		}
+		this.rebuilding = true;
+		try {
+			await this.reconciling;
+			this.clearIndex();
+			await this.save();
+		} finally {
+			this.rebuilding = false;
+		}
+		this.reconcile();
+	}
+
+	/** Changes made while the index is being built are queued and indexed once it is ready. */
+	handleCreateOrModify(file: TAbstractFile): void {
+		if (!(file instanceof TFile) || file.extension !== 'md' || !this.enabled || this.stopped) {
+			return;
+		}
+		this.pendingPaths.add(file.path);
+		if (this.ready) {
+			this.requestFlush();
+		}
+	}
+
+	handleDelete(file: TAbstractFile): void {
+		if (this.notes.has(file.path)) {
+			this.removeNote(file.path);
+			this.requestSave();
+		}
+	}
+
+	handleRename(file: TAbstractFile, oldPath: string): void {
+		const note = this.notes.get(oldPath);
+		if (!note) {
+			this.handleCreateOrModify(file);
+			return;
+		}
+		this.notes.delete(oldPath);
+		this.notes.set(file.path, note);
+		// The title is part of every chunk's terms.
+		this.pendingPaths.add(file.path);
+		note.mtime = 0;
+		if (this.ready) {
+			this.requestFlush();
+		}
+	}
+
+	/**
+	 * Notes ranked by their best-matching chunk. When embeddings are on, the
+	 * query's similarity to each note is blended into the score.
+	 */
+	async search(query: string, options: IndexSearchOptions): Promise<IndexHit[]> {
+		const queryTerms = Array.from(new Set(tokenize(query)));
+		if (queryTerms.length === 0 || this.chunkCount === 0) {
+			return [];
+		}
+
+		const excluded = new Set(options.exclude || []);
+		const averageLength = this.totalLength / this.chunkCount;
+		const idf = new Map(queryTerms.map(term => {
+			const df = this.documentFrequency.get(term) || 0;
+			return [term, Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5))] as [string, number];
+		}));
+
+		const best = new Map<string, IndexHit>();
+		this.notes.forEach((note, path) => {
+			if (excluded.has(path)) {
+				return;
+			}
+			for (const chunk of note.chunks) {
+				let score = 0;
+				for (const term of queryTerms) {
+					const tf = chunk.terms[term];
+					if (tf) {
+						score += (idf.get(term) || 0) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+					}
+				}
+				if (score > 0 && score > (best.get(path)?.score ?? 0)) {
+					best.set(path, { path, heading: chunk.heading, start: chunk.start, end: chunk.end, score });
+				}
+			}
+		});
+
+		let hits = Array.from(best.values());
+		const maxScore = hits.reduce((max, hit) => Math.max(max, hit.score), 0);
+		hits.forEach(hit => hit.score = maxScore ? hit.score / maxScore : 0);
+
+		const queryEmbedding = await this.embedQuery(query);
+		if (queryEmbedding) {
+			const byPath = new Map(hits.map(hit => [hit.path, hit]));
+			this.notes.forEach((note, path) => {
+				if (!note.embedding || excluded.has(path)) {
+					return;
+				}
+				const similarity = cosineSimilarity(queryEmbedding, note.embedding);
+				const hit = byPath.get(path);
+				if (hit) {
+					hit.score += similarity * SEMANTIC_WEIGHT;
+				} else if (note.chunks.length > 0) {
+					const chunk = note.chunks[0];
+					byPath.set(path, { path, heading: chunk.heading, start: chunk.start, end: chunk.end, score: similarity * SEMANTIC_WEIGHT });
+				}
+			});
+			hits = Array.from(byPath.values());
+		}
+
+		return hits.sort((a, b) => b.score - a.score).slice(0, options.limit);
+	}
+
+	private async embedQuery(query: string): Promise<number[] | null> {
+		const providerId = this.settings.embeddingProvider;
+		if (!providerId || this.embeddingFailed || !Array.from(this.notes.values()).some(note => note.embedding)) {
+			return null;
+		}
+		try {
+			const [embedding] = await this.aiService.embed(providerId, [query.slice(0, EMBEDDING_TEXT_LENGTH)], this.settings.embeddingModel, EMBEDDING_DIMENSIONS);
+			return embedding || null;
+		} catch (error) {
+			console.error('Query embedding error:', error);
+			return null;
+		}
+	}
+
+	private async load(): Promise<void> {
+		this.clearIndex();
+		try {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(this.storagePath))) {
+				return;
+			}
+			const data: PersistedIndex = JSON.parse(await adapter.read(this.storagePath));
+			if (data.version !== INDEX_VERSION) {
+				return;
+			}
+			const keepEmbeddings = data.embeddingModel === this.embeddingModelKey(this.settings);
+			for (const [path, note] of Object.entries(data.notes)) {
+				if (!keepEmbeddings) {
+					delete note.embedding;
+				}
+				this.addNote(path, note);
+			}
+		} catch (error) {
+			console.error('Could not load the vault index, rebuilding it:', error);
+			this.clearIndex();
+		}
+	}
+
+	private async save(): Promise<void> {
+		if (!this.enabled) {
+			return;
+		}
+		const data: PersistedIndex = {
+			version: INDEX_VERSION,
+			embeddingModel: this.embeddingModelKey(this.settings),
+			notes: {},
+		};
+		this.notes.forEach((note, path) => data.notes[path] = note);
+		try {
+			await this.app.vault.adapter.write(this.storagePath, JSON.stringify(data));
+		} catch (error) {
+			console.error('Could not save the vault index:', error);
+		}
+	}
+
+	/** Joins the build in progress, or starts one. */
+	private reconcile(): Promise<void> {
+		if (!this.reconciling) {
+			const done = () => {
+				this.reconciling = null;
+			};
+			this.reconciling = this.runReconcile().then(done, (error) => {
+				done();
+				throw error;
+			});
+		}
+		return this.reconciling;
+	}
+
+	/** Indexes new and changed notes and drops deleted ones, yielding between batches. */
+	private async runReconcile(): Promise<void> {
+		const files = this.app.vault.getMarkdownFiles();
+		const existing = new Set(files.map(file => file.path));
+		Array.from(this.notes.keys())
+			.filter(path => !existing.has(path))
+			.forEach(path => this.removeNote(path));
+
+		const stale = files.filter(file => this.notes.get(file.path)?.mtime !== file.stat.mtime);
+		for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+			if (this.stopped) {
+				return;
+			}
+			for (const file of stale.slice(i, i + BATCH_SIZE)) {
+				await this.indexFile(file);
+			}
+			await sleep(0);
+		}
+
+		this.ready = true;
+		this.requestSave();
+		if (this.pendingPaths.size > 0) {
+			this.requestFlush();
+		}
+		// Not awaited: a rebuild need not wait for the embeddings, which drop notes no longer indexed.
+		this.embedPending();
+	}
+
+	private async flushPending(): Promise<void> {
+		const paths = Array.from(this.pendingPaths);
+		this.pendingPaths.clear();
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.indexFile(file);
+			}
+		}
+		this.requestSave();
+		await this.embedPending();
+	}
+
+	private async indexFile(file: TFile): Promise<void> {
+		let content: string;
+		try {
+			content = blankComments(await this.app.vault.cachedRead(file));
+		} catch (error) {
+			return;
+		}
+
+		const titleTokens = tokenize(file.basename);
+		const chunks = chunkNote(content).map(({ heading, start, end }) => {
+			const tokens = [...titleTokens, ...tokenize(content.slice(start, end))];
+			return { heading, start, end, length: tokens.length, terms: countTerms(tokens) };
+		});
+
+		this.removeNote(file.path);
+		this.addNote(file.path, { mtime: file.stat.mtime, chunks });
+	}
+
+	/** Embeds notes that have no vector yet, a batch at a time. */
+	private async embedPending(): Promise<void> {
+		const providerId = this.settings.embeddingProvider;
+		if (!providerId || this.embeddingFailed || this.stopped || this.embedding) {
+			return;
+		}
+
+		const modelKey = this.embeddingModelKey(this.settings);
+		this.embedding = true;
+		try {
+			await this.embedNotes(providerId, modelKey);
+		} finally {
+			this.embedding = false;
+		}
+		// The model changed while a batch was out; start over with the new one.
+		if (this.embeddingModelKey(this.settings) !== modelKey) {
+			await this.embedPending();
+		}
+	}
+
+	private async embedNotes(providerId: string, modelKey: string): Promise<void> {
+		const paths = Array.from(this.notes.entries())
+			.filter(([, note]) => !note.embedding && note.chunks.length > 0)
+			.map(([path]) => path);
+		for (let i = 0; i < paths.length; i += EMBEDDING_BATCH_SIZE) {
+			if (this.stopped || this.embeddingModelKey(this.settings) !== modelKey) {
+				return;
+			}
+
+			const batch = paths.slice(i, i + EMBEDDING_BATCH_SIZE);
+			const texts = await Promise.all(batch.map(path => this.embeddingText(path)));
+			try {
+				const vectors = await this.aiService.embed(providerId, texts, this.settings.embeddingModel, EMBEDDING_DIMENSIONS);
+				if (this.embeddingModelKey(this.settings) !== modelKey) {
+					return;
+				}
+				batch.forEach((path, index) => {
+					const note = this.notes.get(path);
+					if (note && vectors[index]) {
+						note.embedding = vectors[index].map(value => Math.round(value * 10000) / 10000);
+					}
+				});
+			} catch (error) {
+				console.error('Embedding error:', error);
+				this.embeddingFailed = true;
+				new Notice(`❌ Vault index embeddings stopped: ${error.message}`);
+				return;
+			}
+			this.requestSave();
+		}
+	}
+
+	private async embeddingText(path: string): Promise<string> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const content = file instanceof TFile ? await this.app.vault.cachedRead(file) : '';
+		const title = path.replace(/^.*\//, '').replace(/\.md$/, '');
+		return `${title}\n${blankComments(content.replace(FRONT_MATTER_PATTERN, ''))}`.slice(0, EMBEDDING_TEXT_LENGTH);
+	}
+
+	private embeddingModelKey(settings: KnowledgeExpanderSettings): string {
+		return settings.embeddingProvider ? `${settings.embeddingProvider}/${settings.embeddingModel}` : '';
+	}
+
+	private addNote(path: string, note: IndexedNote): void {
+		this.notes.set(path, note);
+		for (const chunk of note.chunks) {
+			this.chunkCount++;
+			this.totalLength += chunk.length;
+			for (const term of Object.keys(chunk.terms)) {
+				this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+			}
+		}
+	}
+
+	private removeNote(path: string): void {
+		const note = this.notes.get(path);
+		if (!note) {
+			return;
+		}
+		this.notes.delete(path);
+		for (const chunk of note.chunks) {
+			this.chunkCount--;
+			this.totalLength -= chunk.length;
+			for (const term of Object.keys(chunk.terms)) {
+				const count = (this.documentFrequency.get(term) || 1) - 1;
+				if (count > 0) {
+					this.documentFrequency.set(term, count);
+				} else {
+					this.documentFrequency.delete(term);
+				}
+			}
+		}
+	}
+
+	private clearIndex(): void {
+		this.notes.clear();
+		this.documentFrequency.clear();
+		this.chunkCount = 0;
+		this.totalLength = 0;
+		this.ready = false;
+		this.pendingPaths.clear();
+	}
+}